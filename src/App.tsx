@@ -19,6 +19,9 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import LiveData from "./pages/LiveData";
 import Analytics from "./pages/Analytics";
+import MatchDetail from "./pages/MatchDetail";
+import TeamDetail from "./pages/TeamDetail";
+import PlayerDetail from "./pages/PlayerDetail";
 import Contact from "./pages/Contact";
 import NotFound from "./pages/NotFound";
 
@@ -43,6 +46,9 @@ const App = () => (
           <Route path="/" element={<Index />} />
           <Route path="/live" element={<LiveData />} />
           <Route path="/analytics" element={<Analytics />} />
+          <Route path="/match/:id" element={<MatchDetail />} />
+          <Route path="/team/:id" element={<TeamDetail />} />
+          <Route path="/player/:id" element={<PlayerDetail />} />
           <Route path="/contact" element={<Contact />} />
           
           {/* Catch-all route for 404 errors */}
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCompetitions } from '@/hooks/use-competitions';
+
+interface CompetitionSelectProps {
+  value: string;
+  onValueChange: (code: string) => void;
+  className?: string;
+}
+
+const CompetitionSelect: React.FC<CompetitionSelectProps> = ({ value, onValueChange, className = 'w-full sm:w-[220px]' }) => {
+  const competitions = useCompetitions();
+
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Select League" />
+      </SelectTrigger>
+      <SelectContent>
+        {competitions.map((competition) => (
+          <SelectItem key={competition.code} value={competition.code}>
+            <span className="flex items-center space-x-2">
+              {competition.logo ? (
+                <img src={competition.logo} alt="" className="h-4 w-4 object-contain" loading="lazy" />
+              ) : (
+                <span className="h-4 w-4" />
+              )}
+              <span>{competition.name}</span>
+              <span className="text-xs text-gray-500">{competition.country}</span>
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default CompetitionSelect;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Radio, Database, History, FlaskConical } from 'lucide-react';
+import { DataProvenance, DataSource } from '@/types/football';
+
+interface DataSourceBadgeProps {
+  provenance?: DataProvenance;
+  className?: string;
+}
+
+const sourceStyles: Record<DataSource, { label: string; icon: React.ElementType; className: string; description: string }> = {
+  live: {
+    label: 'Live',
+    icon: Radio,
+    className: 'bg-green-100 text-green-800 border-green-300',
+    description: 'Fetched from the provider just now.'
+  },
+  cached: {
+    label: 'Cached',
+    icon: Database,
+    className: 'bg-blue-100 text-blue-800 border-blue-300',
+    description: 'Served from the local cache while still fresh.'
+  },
+  stale: {
+    label: 'Stale',
+    icon: History,
+    className: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+    description: 'Served from an expired cache entry while a refresh runs in the background.'
+  },
+  mock: {
+    label: 'Demo data',
+    icon: FlaskConical,
+    className: 'bg-red-100 text-red-800 border-red-300',
+    description: 'Not real results. Shown because the provider could not supply this data.'
+  }
+};
+
+const DataSourceBadge: React.FC<DataSourceBadgeProps> = ({ provenance, className = '' }) => {
+  if (!provenance) return null;
+
+  const style = sourceStyles[provenance.source];
+  const Icon = style.icon;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="outline" className={`${style.className} ${className} cursor-default`}>
+          <Icon className="h-3 w-3 mr-1" />
+          {style.label}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs">
+        <p className="font-medium">{provenance.provider}</p>
+        <p className="text-xs text-gray-600">{style.description}</p>
+        {provenance.source !== 'mock' && (
+          <p className="text-xs text-gray-500">Fetched {new Date(provenance.fetchedAt).toLocaleString()}</p>
+        )}
+        {provenance.notice && <p className="text-xs text-gray-500 mt-1">{provenance.notice}</p>}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+export default DataSourceBadge;
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { History, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import type FootballAPI from '@/utils/footballApi';
+import { eloRatings, ELO_SETTINGS } from '@/utils/eloRatings';
+import { Season } from '@/types/football';
+
+interface EloRatingsPanelProps {
+  api: FootballAPI;
+  competition: string;
+  /** Seasons of the competition, newest first, offered for loading history */
+  seasons: Season[];
+  /** Teams of the selected competition, used to narrow the leaderboard */
+  tableTeams: string[];
+  colors: string[];
+}
+
+// Seasons fetched by "Load history", newest first
+const HISTORY_SEASONS = 5;
+const LEADERBOARD_SIZE = 20;
+
+const EloRatingsPanel: React.FC<EloRatingsPanelProps> = ({ api, competition, seasons, tableTeams, colors }) => {
+  const [, setVersion] = useState(0);
+  const [scope, setScope] = useState<'competition' | 'all'>('competition');
+  const [selectedKeys, setSelectedKeys] = useState<string[] | null>(null);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => eloRatings.subscribe(() => setVersion(version => version + 1)), []);
+
+  const ratings = eloRatings.getRatings();
+  const leaderboard = (scope === 'competition' ? ratings.filter(entry => tableTeams.includes(entry.name)) : ratings)
+    .slice(0, LEADERBOARD_SIZE);
+  const chartKeys = (selectedKeys ?? leaderboard.slice(0, 3).map(entry => entry.key)).slice(0, colors.length);
+  const chartTeams = chartKeys.map(key => ratings.find(entry => entry.key === key)).filter(Boolean);
+  const history = eloRatings.getHistory(chartKeys);
+
+  const toggleTeam = (key: string) => {
+    const next = chartKeys.includes(key) ? chartKeys.filter(selected => selected !== key) : [...chartKeys, key];
+    setSelectedKeys(next.slice(-colors.length));
+  };
+
+  // Replay earlier seasons oldest first so the ratings carry over between seasons
+  const loadHistory = async () => {
+    setLoadingHistory(true);
+    setMessage(null);
+    let added = 0;
+    try {
+      for (const season of seasons.slice(0, HISTORY_SEASONS).reverse()) {
+        const { matches, provenance } = await api.fetchCompetitionMatches(competition, season.label);
+        if (provenance?.source !== 'mock') {
+          added += eloRatings.processMatches(matches);
+        }
+      }
+      setMessage(`Added ${added} result${added !== 1 ? 's' : ''} from earlier seasons.`);
+    } catch (error) {
+      console.error('Error loading rating history:', error);
+      setMessage(`Stopped after ${added} new result${added !== 1 ? 's' : ''}: a season could not be loaded.`);
+    } finally {
+      setLoadingHistory(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={scope}
+          onValueChange={(value) => value && setScope(value as 'competition' | 'all')}
+        >
+          <ToggleGroupItem value="competition">This competition</ToggleGroupItem>
+          <ToggleGroupItem value="all">All rated teams</ToggleGroupItem>
+        </ToggleGroup>
+        <Button variant="outline" size="sm" onClick={loadHistory} disabled={loadingHistory || seasons.length === 0}>
+          <History className="h-4 w-4 mr-1" />
+          {loadingHistory ? 'Loading seasons...' : `Load last ${Math.min(HISTORY_SEASONS, seasons.length)} seasons`}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => eloRatings.reset()} disabled={loadingHistory || ratings.length === 0}>
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Reset
+        </Button>
+        <span className="text-xs text-gray-500">{eloRatings.getResultCount()} results processed</span>
+      </div>
+      {message && <p className="text-sm text-gray-600">{message}</p>}
+
+      {leaderboard.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-8">No rated teams yet. Results are rated as seasons are loaded.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">#</th>
+                  <th className="text-left p-2">Team</th>
+                  <th className="text-center p-2">Rating</th>
+                  <th className="text-center p-2">Matches</th>
+                </tr>
+              </thead>
+              <tbody>
+                {leaderboard.map((entry, index) => (
+                  <tr
+                    key={entry.key}
+                    className={`border-b cursor-pointer hover:bg-gray-50 ${chartKeys.includes(entry.key) ? 'bg-blue-50' : ''}`}
+                    onClick={() => toggleTeam(entry.key)}
+                  >
+                    <td className="p-2 font-medium">{index + 1}</td>
+                    <td className="p-2">{entry.name}</td>
+                    <td className="p-2 text-center font-bold">{Math.round(entry.rating)}</td>
+                    <td className="p-2 text-center">{entry.played}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <ResponsiveContainer width="100%" height={350}>
+              <LineChart data={history}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" fontSize={12} minTickGap={30} />
+                <YAxis domain={['auto', 'auto']} fontSize={12} width={45} />
+                <Tooltip />
+                <Legend verticalAlign="top" />
+                {chartTeams.map((entry, index) => (
+                  <Line
+                    key={entry.key}
+                    type="linear"
+                    dataKey={entry.name}
+                    stroke={colors[index]}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+            <p className="text-xs text-gray-500 mt-2">
+              Click teams in the table to compare them. Everyone starts at {ELO_SETTINGS.initialRating}; each result moves ratings by
+              K = {ELO_SETTINGS.kFactor} times a goal-difference multiplier, with a {ELO_SETTINGS.homeAdvantage}-point home advantage.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EloRatingsPanel;
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Bar, BarChart, CartesianGrid, Cell, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import DataSourceBadge from '@/components/DataSourceBadge';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import FootballAPI from '@/utils/footballApi';
+import { CACHE_TTL } from '@/utils/cachePolicy';
+import { getHeadToHead, HeadToHeadMeeting, HeadToHeadResult } from '@/utils/headToHead';
+import { getTabErrorMessage } from '@/hooks/use-tab-query';
+import { TeamRef } from '@/types/football';
+
+const api = new FootballAPI();
+
+const SHOWN_MEETINGS = 10;
+
+const RESULT_COLORS: Record<HeadToHeadResult, string> = { win: '#22c55e', draw: '#9ca3af', loss: '#ef4444' };
+
+interface HeadToHeadProps {
+  teamA: TeamRef;
+  teamB: TeamRef;
+}
+
+const formatDate = (meeting: HeadToHeadMeeting) => new Date(meeting.match.utcDate).toLocaleDateString();
+
+const MeetingScore: React.FC<{ meeting: HeadToHeadMeeting }> = ({ meeting: { match } }) => (
+  <Link to={`/match/${match.id}`} className="hover:text-blue-700 hover:underline">
+    {match.homeTeam.name} {match.score.fullTime.home} - {match.score.fullTime.away} {match.awayTeam.name}
+  </Link>
+);
+
+/**
+ * Every past meeting of two teams: the record, the biggest results and a timeline
+ * Counts are from the first team's point of view; see src/utils/headToHead.ts.
+ */
+const HeadToHead: React.FC<HeadToHeadProps> = ({ teamA, teamB }) => {
+  const [showAll, setShowAll] = useState(false);
+
+  const query = useQuery({
+    queryKey: ['headToHead', teamA.id, teamB.id, api.provider.id],
+    queryFn: ({ signal }) => api.fetchHeadToHead(teamA, teamB, signal),
+    staleTime: CACHE_TTL.standard
+  });
+
+  if (query.isPending) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-20 w-full" />
+        <Skeleton className="h-40 w-full" />
+      </div>
+    );
+  }
+
+  if (query.error) {
+    return (
+      <div className="text-center py-8 space-y-3">
+        <p className="text-sm text-red-500">{getTabErrorMessage(query.error)}</p>
+        <Button variant="outline" size="sm" onClick={() => query.refetch()}>Try again</Button>
+      </div>
+    );
+  }
+
+  const record = getHeadToHead(query.data.matches, teamA, teamB);
+  const played = record.meetings.length;
+
+  if (played === 0) {
+    return (
+      <div className="text-center py-8 space-y-2">
+        <p className="text-sm text-gray-500">No finished meetings between {teamA.name} and {teamB.name} were found.</p>
+        <DataSourceBadge provenance={query.data.provenance} />
+      </div>
+    );
+  }
+
+  const totals = [
+    { label: `${teamA.name} wins`, value: record.wins, color: RESULT_COLORS.win },
+    { label: 'Draws', value: record.draws, color: RESULT_COLORS.draw },
+    { label: `${teamB.name} wins`, value: record.losses, color: RESULT_COLORS.loss }
+  ];
+  const highlights = [
+    { label: `${teamA.name}'s biggest win`, meeting: record.biggestWin },
+    { label: `${teamB.name}'s biggest win`, meeting: record.biggestLoss },
+    { label: 'Most goals', meeting: record.highestScoring }
+  ].filter(highlight => highlight.meeting);
+  // Oldest first, with the margin from the first team's point of view
+  const timeline = [...record.meetings].reverse().map(meeting => ({
+    date: formatDate(meeting),
+    margin: meeting.scored - meeting.conceded,
+    result: meeting.result,
+    score: `${meeting.match.homeTeam.name} ${meeting.match.score.fullTime.home} - ${meeting.match.score.fullTime.away} ${meeting.match.awayTeam.name}`
+  }));
+  const shown = showAll ? record.meetings : record.meetings.slice(0, SHOWN_MEETINGS);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-gray-600">
+          {played} meeting{played !== 1 ? 's' : ''} since {formatDate(record.meetings[played - 1])} ·
+          Goals {teamA.name} {record.goalsFor} - {record.goalsAgainst} {teamB.name}
+        </p>
+        <DataSourceBadge provenance={query.data.provenance} />
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 text-center">
+        {totals.map(({ label, value, color }) => (
+          <div key={label} className="rounded-lg bg-gray-50 p-3">
+            <p className="text-2xl font-bold" style={{ color }}>{value}</p>
+            <p className="text-xs text-gray-500">{label}</p>
+          </div>
+        ))}
+      </div>
+      <div className="flex h-2 rounded-full overflow-hidden">
+        {totals.map(({ label, value, color }) => (
+          <div key={label} style={{ width: `${(value / played) * 100}%`, backgroundColor: color }} />
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <h4 className="font-semibold text-gray-900">Biggest Results</h4>
+          <dl className="divide-y text-sm">
+            {highlights.map(({ label, meeting }) => (
+              <div key={label} className="py-2">
+                <dt className="text-xs text-gray-500">{label}</dt>
+                <dd className="font-medium"><MeetingScore meeting={meeting} /> <span className="text-xs text-gray-400">{formatDate(meeting)}</span></dd>
+              </div>
+            ))}
+          </dl>
+          <div className="flex flex-wrap gap-2">
+            {record.competitions.map(({ name, played: count }) => (
+              <Badge key={name} variant="outline">{name} · {count}</Badge>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="font-semibold text-gray-900">Meetings Timeline</h4>
+          <ResponsiveContainer width="100%" height={200}>
+            <BarChart data={timeline}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" fontSize={10} />
+              <YAxis allowDecimals={false} fontSize={12} width={30} />
+              <ReferenceLine y={0} stroke="#6b7280" />
+              <Tooltip
+                formatter={(_, __, item) => [item.payload.score, 'Result']}
+                labelFormatter={(date) => date}
+              />
+              <Bar dataKey="margin" name={`${teamA.name} goal margin`}>
+                {timeline.map((entry, index) => <Cell key={index} fill={RESULT_COLORS[entry.result]} />)}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+          <p className="text-xs text-gray-500">
+            Goal margin of each meeting from {teamA.name}'s side, oldest first; draws sit on the line.
+          </p>
+        </div>
+      </div>
+
+      <ul className="divide-y text-sm">
+        {shown.map(meeting => (
+          <li key={meeting.match.id} className="flex items-center gap-3 py-2">
+            <span className="h-2.5 w-2.5 rounded-full shrink-0" style={{ backgroundColor: RESULT_COLORS[meeting.result] }} />
+            <span className="w-24 text-gray-500">{formatDate(meeting)}</span>
+            <span className="flex-1"><MeetingScore meeting={meeting} /></span>
+            <span className="hidden sm:block text-xs text-gray-400">{meeting.match.competition?.name}</span>
+          </li>
+        ))}
+      </ul>
+      {played > SHOWN_MEETINGS && (
+        <div className="text-center">
+          <Button variant="ghost" size="sm" onClick={() => setShowAll(value => !value)}>
+            {showAll ? `Show latest ${SHOWN_MEETINGS}` : `Show all ${played} meetings`}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HeadToHead;
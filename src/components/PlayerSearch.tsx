@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2, Search } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import FootballAPI from '@/utils/footballApi';
+import { CACHE_TTL } from '@/utils/cachePolicy';
+
+const api = new FootballAPI();
+
+const MIN_QUERY_LENGTH = 3;
+const SEARCH_DELAY = 300;
+const SHOWN_RESULTS = 8;
+
+/**
+ * Search box listing players by name, each linking to its player page
+ * Searches start after a short pause in typing, so each keystroke is not a request.
+ */
+const PlayerSearch: React.FC<{ className?: string }> = ({ className = 'w-full sm:w-72' }) => {
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [query]);
+
+  const search = useQuery({
+    queryKey: ['playerSearch', debouncedQuery.toLowerCase(), api.provider.id],
+    queryFn: ({ signal }) => api.searchPlayers(debouncedQuery, signal),
+    enabled: debouncedQuery.length >= MIN_QUERY_LENGTH,
+    staleTime: CACHE_TTL.static,
+    retry: false
+  });
+
+  const open = debouncedQuery.length >= MIN_QUERY_LENGTH && query.trim().length >= MIN_QUERY_LENGTH;
+  const players = search.data?.players.slice(0, SHOWN_RESULTS) ?? [];
+
+  return (
+    <div className={`relative ${className}`}>
+      <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-400" />
+      <Input
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        placeholder="Search players"
+        className="pl-8 h-9"
+        aria-label="Search players"
+      />
+      {open && (
+        <div className="absolute z-20 mt-1 w-full rounded-md border bg-white shadow-lg">
+          {search.isPending ? (
+            <p className="flex items-center gap-2 p-3 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Searching...
+            </p>
+          ) : search.error ? (
+            <p className="p-3 text-sm text-red-500">Player search failed.</p>
+          ) : players.length === 0 ? (
+            <p className="p-3 text-sm text-gray-500">No players found.</p>
+          ) : (
+            <ul className="max-h-80 overflow-y-auto py-1">
+              {players.map(player => (
+                <li key={player.id}>
+                  <Link to={`/player/${player.id}`} onClick={() => setQuery('')} className="flex items-center gap-2 px-3 py-2 text-sm hover:bg-gray-50">
+                    {player.photo ? (
+                      <img src={player.photo} alt="" className="h-7 w-7 rounded-full object-cover bg-gray-100" />
+                    ) : (
+                      <span className="h-7 w-7 rounded-full bg-gray-100" />
+                    )}
+                    <span className="flex-1 min-w-0">
+                      <span className="block font-medium truncate">{player.name}</span>
+                      <span className="block text-xs text-gray-500 truncate">
+                        {[player.position, player.currentTeam?.name].filter(Boolean).join(' · ')}
+                      </span>
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlayerSearch;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { PositionHistoryRow } from '@/utils/standingsHistory';
+
+interface PositionHistoryChartProps {
+  history: PositionHistoryRow[];
+  /** Teams offered for selection, in table order */
+  teams: string[];
+  colors: string[];
+  /** Teams shown before the user picks any, defaults to the top four */
+  defaultCount?: number;
+}
+
+const PositionHistoryChart: React.FC<PositionHistoryChartProps> = ({ history, teams, colors, defaultCount = 4 }) => {
+  const [selectedTeams, setSelectedTeams] = useState<string[] | null>(null);
+
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500 py-8 text-center">No matchday results available for this season.</p>;
+  }
+
+  // One colour per line, so the selection is capped at the palette size
+  const visibleTeams = (selectedTeams ?? teams.slice(0, defaultCount))
+    .filter(team => teams.includes(team))
+    .slice(0, colors.length);
+
+  return (
+    <div className="space-y-4">
+      <ToggleGroup
+        type="multiple"
+        variant="outline"
+        size="sm"
+        className="flex-wrap justify-start"
+        value={visibleTeams}
+        onValueChange={setSelectedTeams}
+      >
+        {teams.map((team) => (
+          <ToggleGroupItem
+            key={team}
+            value={team}
+            disabled={!visibleTeams.includes(team) && visibleTeams.length >= colors.length}
+            className="text-xs"
+          >
+            {team}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      <ResponsiveContainer width="100%" height={350}>
+        <LineChart data={history}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="matchday" fontSize={12} label={{ value: 'Matchday', position: 'insideBottom', offset: -5, fontSize: 12 }} />
+          <YAxis reversed allowDecimals={false} domain={[1, teams.length]} fontSize={12} width={30} />
+          <Tooltip labelFormatter={(matchday) => `Matchday ${matchday}`} />
+          <Legend verticalAlign="top" />
+          {visibleTeams.map((team, index) => (
+            <Line
+              key={team}
+              type="linear"
+              dataKey={team}
+              name={team}
+              stroke={colors[index]}
+              strokeWidth={2}
+              dot={false}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default PositionHistoryChart;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { FlaskConical } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type FootballAPI from '@/utils/footballApi';
+import { backtestPredictions, BacktestReport } from '@/utils/predictionModel';
+import { Season } from '@/types/football';
+
+interface PredictionBacktestProps {
+  api: FootballAPI;
+  competition: string;
+  /** Season whose results are predicted round by round */
+  season: string;
+  /** Seasons of the competition, newest first; the one before `season` seeds the model */
+  seasons: Season[];
+}
+
+const PERFECT_CALIBRATION = [{ predicted: 0, observed: 0 }, { predicted: 100, observed: 100 }];
+
+const PredictionBacktest: React.FC<PredictionBacktestProps> = ({ api, competition, season, seasons }) => {
+  const [report, setReport] = useState<BacktestReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const previousSeason = seasons[seasons.findIndex(entry => entry.label === season) + 1]?.label;
+
+  const runBacktest = async () => {
+    setRunning(true);
+    setMessage(null);
+    try {
+      const [results, history] = await Promise.all([
+        api.fetchCompetitionMatches(competition, season),
+        previousSeason
+          ? api.fetchCompetitionMatches(competition, previousSeason).catch(error => {
+            console.warn('Could not load the previous season for the backtest:', error);
+            return null;
+          })
+          : null
+      ]);
+      if (results.provenance?.source === 'mock') {
+        setReport(null);
+        setMessage('Only demo results are available for this season, so there is nothing to backtest.');
+        return;
+      }
+
+      const historyMatches = history && history.provenance?.source !== 'mock' ? history.matches : [];
+      const backtest = backtestPredictions(results.matches, historyMatches);
+      setReport(backtest);
+      if (backtest.predictions === 0) {
+        setMessage('Not enough finished matches to fit the model yet.');
+      }
+    } catch (error) {
+      console.error('Error running prediction backtest:', error);
+      setMessage('Could not load this season\'s results.');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const calibration = report?.calibration.map(bin => ({
+    predicted: Math.round(bin.predicted * 100),
+    observed: Math.round(bin.observed * 100),
+    count: bin.count
+  })) ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <Button variant="outline" size="sm" onClick={runBacktest} disabled={running}>
+          <FlaskConical className="h-4 w-4 mr-1" />
+          {running ? 'Running backtest...' : `Backtest ${season}`}
+        </Button>
+        <span className="text-xs text-gray-500">
+          {previousSeason ? `Seeded with ${previousSeason} results` : 'No earlier season to seed the model'}
+        </span>
+      </div>
+      {message && <p className="text-sm text-gray-600">{message}</p>}
+
+      {report && report.predictions > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="grid grid-cols-2 lg:grid-cols-1 gap-4 content-start">
+            <div>
+              <p className="text-2xl font-bold">{report.predictions}</p>
+              <p className="text-sm text-gray-600">Matches predicted</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold">{Math.round(report.accuracy * 100)}%</p>
+              <p className="text-sm text-gray-600">Most likely outcome happened</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold">{report.brierScore.toFixed(3)}</p>
+              <p className="text-sm text-gray-600">Brier score (always guessing a third: 0.667)</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold">{report.logLoss.toFixed(3)}</p>
+              <p className="text-sm text-gray-600">Log loss (always guessing a third: 1.099)</p>
+            </div>
+          </div>
+
+          <div className="lg:col-span-2">
+            <ResponsiveContainer width="100%" height={300}>
+              <ComposedChart margin={{ bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  type="number"
+                  dataKey="predicted"
+                  domain={[0, 100]}
+                  unit="%"
+                  fontSize={12}
+                  label={{ value: 'Predicted probability', position: 'insideBottom', offset: -10, fontSize: 12 }}
+                />
+                <YAxis type="number" dataKey="observed" domain={[0, 100]} unit="%" fontSize={12} width={45} />
+                <Tooltip />
+                <Legend verticalAlign="top" />
+                <Line
+                  data={PERFECT_CALIBRATION}
+                  dataKey="observed"
+                  name="Perfect calibration"
+                  stroke="#9CA3AF"
+                  strokeDasharray="5 5"
+                  dot={false}
+                  legendType="plainline"
+                />
+                <Line data={calibration} dataKey="observed" name="Observed frequency" stroke="#0088FE" strokeWidth={2} />
+              </ComposedChart>
+            </ResponsiveContainer>
+            <p className="text-xs text-gray-500 mt-2">
+              Every round is predicted from the results before it. Home, draw and away probabilities are grouped in 10% bins;
+              a calibrated model's points lie on the dashed line.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PredictionBacktest;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSeasonSimulation } from '@/hooks/use-season-simulation';
+import { MIN_MATCHES_TO_FIT } from '@/utils/predictionModel';
+import { DEFAULT_SIMULATIONS, getPositionRangeProbability } from '@/utils/seasonSimulator';
+import { StandingsZone, ZONE_STYLES } from '@/utils/standingsZones';
+import { Match, Standing } from '@/types/football';
+
+interface SeasonProjectionTableProps {
+  standings: Standing[];
+  /** The season's matches: finished ones fit the model, scheduled ones are simulated */
+  matches: Match[];
+  /** Qualification and relegation zones, each given a probability column */
+  zones: StandingsZone[];
+}
+
+const SIMULATION_COUNTS = [1000, DEFAULT_SIMULATIONS, 50000];
+
+const formatProbability = (probability: number): string => {
+  if (probability === 0) return '';
+  if (probability < 0.005) return '<1';
+  if (probability > 0.995 && probability < 1) return '>99';
+  return `${Math.round(probability * 100)}`;
+};
+
+// Heatmap shade: stronger blue for likelier positions
+const heatmapStyle = (probability: number): React.CSSProperties => ({
+  backgroundColor: probability > 0 ? `rgba(37, 99, 235, ${Math.min(1, 0.08 + probability * 0.92)})` : undefined,
+  color: probability >= 0.5 ? 'white' : undefined
+});
+
+const SeasonProjectionTable: React.FC<SeasonProjectionTableProps> = ({ standings, matches, zones }) => {
+  const [iterations, setIterations] = useState(DEFAULT_SIMULATIONS);
+  const { projection, running, error } = useSeasonSimulation(standings, matches, iterations);
+
+  const positions = standings.map((_, index) => index + 1);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <Select value={String(iterations)} onValueChange={(value) => setIterations(Number(value))}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SIMULATION_COUNTS.map((count) => (
+              <SelectItem key={count} value={String(count)}>{count.toLocaleString()} simulations</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {running && <span className="text-sm text-gray-500">Simulating the rest of the season...</span>}
+        {projection && !running && (
+          <span className="text-xs text-gray-500">
+            {projection.remainingFixtures} remaining fixture{projection.remainingFixtures !== 1 ? 's' : ''} simulated{' '}
+            {projection.iterations.toLocaleString()} times
+          </span>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600">The simulation failed: {error}</p>}
+      {!running && !error && !projection && (
+        <p className="text-sm text-gray-500 text-center py-8">
+          Projections need the season's results; at least {MIN_MATCHES_TO_FIT} finished matches are required to fit the model.
+        </p>
+      )}
+
+      {projection && (
+        <div className={`overflow-x-auto ${running ? 'opacity-50' : ''}`}>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left p-2">Team</th>
+                <th className="text-center p-2">Pts</th>
+                <th className="text-center p-2">xPts</th>
+                <th className="text-center p-2">Title %</th>
+                {zones.map((zone) => (
+                  <th key={zone.label} className="text-center p-2 whitespace-nowrap">{zone.label} %</th>
+                ))}
+                {positions.map((position) => (
+                  <th key={position} className="text-center p-1 w-8">{position}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {projection.teams.map((entry) => (
+                <tr key={entry.team.id || entry.team.name} className="border-b">
+                  <td className="p-2 whitespace-nowrap font-medium">{entry.team.name}</td>
+                  <td className="p-2 text-center">{entry.currentPoints}</td>
+                  <td className="p-2 text-center font-bold">{entry.expectedPoints.toFixed(1)}</td>
+                  <td className="p-2 text-center">{formatProbability(entry.positions[0]) || '0'}</td>
+                  {zones.map((zone) => (
+                    <td key={zone.label} className={`p-2 text-center ${ZONE_STYLES[zone.color].cell}`}>
+                      {formatProbability(getPositionRangeProbability(entry, zone.from, zone.to)) || '0'}
+                    </td>
+                  ))}
+                  {entry.positions.map((probability, index) => (
+                    <td key={index} className="p-1 text-center" style={heatmapStyle(probability)}>
+                      {formatProbability(probability)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Each remaining fixture's score is drawn from the prediction model. Simulated tables are ranked by points, goal difference
+        and goals scored, so head-to-head tiebreaks are not reflected. Cells show the percentage chance of each final position.
+      </p>
+    </div>
+  );
+};
+
+export default SeasonProjectionTable;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Season } from '@/types/football';
+
+interface SeasonSelectProps {
+  seasons: Season[];
+  value?: string;
+  onValueChange: (season: string) => void;
+  className?: string;
+}
+
+const SeasonSelect: React.FC<SeasonSelectProps> = ({ seasons, value, onValueChange, className = 'w-full sm:w-[170px]' }) => {
+  if (seasons.length === 0 || !value) {
+    return <div className={className}></div>;
+  }
+
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Select Season" />
+      </SelectTrigger>
+      <SelectContent>
+        {seasons.map((season) => (
+          <SelectItem key={season.label} value={season.label}>
+            <span className="flex items-center space-x-2">
+              <span>{season.label}</span>
+              {season.current && <span className="text-xs font-medium text-green-600">Current</span>}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default SeasonSelect;
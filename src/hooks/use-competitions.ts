@@ -0,0 +1,25 @@
+import { useQuery } from "@tanstack/react-query"
+import FootballAPI from "@/utils/footballApi"
+import { competitionCatalog } from "@/utils/competitionCatalog"
+import { competitionConfig } from "@/utils/competitionConfig"
+import { Competition } from "@/types/football"
+
+const api = new FootballAPI()
+
+/**
+ * Competitions offered by every selector in the app
+ * The local catalog is shown immediately; provider competitions are added
+ * once loaded when VITE_COMPETITION_SOURCE=provider.
+ */
+export function useCompetitions(): Competition[] {
+  const { data } = useQuery({
+    queryKey: ["competitions", competitionConfig.source, api.provider.id],
+    queryFn: ({ signal }) => competitionCatalog.load(api, signal),
+    placeholderData: competitionCatalog.getAll(),
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+    retry: false,
+  })
+
+  return data ?? competitionCatalog.getAll()
+}
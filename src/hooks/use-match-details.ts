@@ -0,0 +1,51 @@
+import { useMemo } from "react"
+import { useQueries, UseQueryResult } from "@tanstack/react-query"
+import FootballAPI from "@/utils/footballApi"
+import { CACHE_TTL } from "@/utils/cachePolicy"
+import { PlayerMatchDetails } from "@/utils/playerSeasonStats"
+import { LineupResponse, Match, TimelineResponse } from "@/types/football"
+
+const api = new FootballAPI()
+
+// Stable combine functions, so react-query only recombines when a query changes
+const combineLineups = (results: UseQueryResult<LineupResponse>[]) => ({
+  data: results.map((result) => result.data?.lineup ?? []),
+  settled: results.filter((result) => !result.isPending).length,
+})
+const combineTimelines = (results: UseQueryResult<TimelineResponse>[]) => ({
+  data: results.map((result) => result.data?.timeline ?? []),
+  settled: results.filter((result) => !result.isPending).length,
+})
+
+/**
+ * Lineups and timelines of a list of matches, two requests per match
+ * Uses the match page's query keys, so details opened there are reused. Details
+ * that fail to load count as loaded, so the matches are counted without them.
+ */
+export function useMatchDetails(matches: Match[]) {
+  const lineups = useQueries({
+    queries: matches.map((match) => ({
+      queryKey: ["matchLineup", match.id, api.provider.id],
+      queryFn: ({ signal }: { signal: AbortSignal }) => api.fetchLineup(match.id, signal),
+      staleTime: CACHE_TTL.static,
+      retry: false,
+    })),
+    combine: combineLineups,
+  })
+  const timelines = useQueries({
+    queries: matches.map((match) => ({
+      queryKey: ["matchTimeline", match.id, api.provider.id],
+      queryFn: ({ signal }: { signal: AbortSignal }) => api.fetchTimeline(match.id, signal),
+      staleTime: CACHE_TTL.static,
+      retry: false,
+    })),
+    combine: combineTimelines,
+  })
+
+  const details = useMemo<PlayerMatchDetails[]>(
+    () => matches.map((match, index) => ({ match, lineup: lineups.data[index], timeline: timelines.data[index] })),
+    [matches, lineups.data, timelines.data]
+  )
+
+  return { details, loaded: Math.min(lineups.settled, timelines.settled) }
+}
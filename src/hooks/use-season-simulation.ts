@@ -0,0 +1,56 @@
+import { useEffect, useState } from "react"
+import { Match, Standing } from "@/types/football"
+import { SeasonProjection, simulateSeason } from "@/utils/seasonSimulator"
+import type { SeasonSimulationRequest, SeasonSimulationResponse } from "@/utils/seasonSimulator.worker"
+
+interface SeasonSimulationState {
+  projection: SeasonProjection | null
+  running: boolean
+  error: string | null
+}
+
+/**
+ * Final-table projection for the current standings, simulated in a Web Worker
+ * A new run replaces the previous one whenever the inputs change; without
+ * Worker support the simulation runs on the main thread instead.
+ */
+export function useSeasonSimulation(standings: Standing[], matches: Match[], iterations: number) {
+  const [state, setState] = useState<SeasonSimulationState>({ projection: null, running: false, error: null })
+
+  useEffect(() => {
+    if (standings.length === 0) {
+      setState({ projection: null, running: false, error: null })
+      return
+    }
+
+    setState((previous) => ({ ...previous, running: true, error: null }))
+    const request: SeasonSimulationRequest = { standings, matches, options: { iterations } }
+
+    if (typeof Worker === "undefined") {
+      try {
+        setState({ projection: simulateSeason(request.standings, request.matches, request.options), running: false, error: null })
+      } catch (error) {
+        setState({ projection: null, running: false, error: error instanceof Error ? error.message : String(error) })
+      }
+      return
+    }
+
+    const worker = new Worker(new URL("../utils/seasonSimulator.worker.ts", import.meta.url), { type: "module" })
+    worker.onmessage = (event: MessageEvent<SeasonSimulationResponse>) => {
+      const response = event.data
+      setState("error" in response
+        ? { projection: null, running: false, error: response.error }
+        : { projection: response.projection, running: false, error: null })
+      worker.terminate()
+    }
+    worker.onerror = (event) => {
+      setState({ projection: null, running: false, error: event.message || "The simulation worker failed" })
+      worker.terminate()
+    }
+    worker.postMessage(request)
+
+    return () => worker.terminate()
+  }, [standings, matches, iterations])
+
+  return state
+}
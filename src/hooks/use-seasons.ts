@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query"
+import FootballAPI from "@/utils/footballApi"
+import { CACHE_TTL } from "@/utils/cachePolicy"
+
+const api = new FootballAPI()
+
+/**
+ * Seasons of a competition, newest first, with the provider's current season
+ * Season lists change rarely, so they stay fresh for a day like the HTTP cache.
+ */
+export function useSeasons(competition: string) {
+  const query = useQuery({
+    queryKey: ["seasons", competition, api.provider.id],
+    queryFn: ({ signal }) => api.fetchSeasons(competition, signal),
+    staleTime: CACHE_TTL.static,
+    refetchOnWindowFocus: false,
+    retry: false,
+  })
+
+  const seasons = query.data?.seasons ?? []
+  const currentSeason = seasons.find((season) => season.current)?.label ?? seasons[0]?.label
+
+  return { ...query, seasons, currentSeason }
+}
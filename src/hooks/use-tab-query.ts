@@ -0,0 +1,114 @@
+import { useCallback, useRef } from "react"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import FootballAPI from "@/utils/footballApi"
+import { TabContext, TabDefinition } from "@/utils/tabRegistry"
+import { HttpError, isAbortError } from "@/utils/requestScheduler"
+import { validationReporter } from "@/utils/validation"
+import { dataSettings } from "@/utils/dataSettings"
+import { DataProvenance } from "@/types/football"
+import { toast } from "@/hooks/use-toast"
+
+const DEFAULT_REFETCH_INTERVAL = 30000
+
+const api = new FootballAPI()
+
+const getProvenance = (data: unknown) => (data as { provenance?: DataProvenance } | null)?.provenance
+
+/**
+ * Confirm a load, warning separately when demo data or dropped rows are involved
+ * Background refetches (auto-refresh, stale data) only speak up when the data
+ * switches to or from demo data, or when rows were dropped.
+ * @param previous - Data the refetch replaces; undefined for loads the user started
+ */
+function notifyLoaded(tab: TabDefinition, data: unknown, startedAt: number, previous?: unknown) {
+  const provenance = getProvenance(data)
+  const background = previous !== undefined
+  const sourceChanged = (getProvenance(previous)?.source === "mock") !== (provenance?.source === "mock")
+  const announce = !background || sourceChanged
+
+  if (announce && provenance?.source === "mock") {
+    toast({
+      title: "Showing demo data",
+      description: `${tab.label} could not be loaded from ${api.provider.name}; demonstration data is shown instead.`,
+    })
+  } else if (announce) {
+    toast({
+      title: "Data Loaded Successfully",
+      description: `${tab.label} loaded from ${api.provider.name}${provenance?.source === "stale" ? " (cached copy, refreshing)" : ""}.`,
+    })
+  }
+
+  const issues = validationReporter.getIssues().filter((issue) => issue.timestamp >= startedAt)
+  if (issues.length === 0) return
+
+  const affectedRows = new Set(issues.map((issue) => `${issue.context}:${issue.index ?? ""}`)).size
+  toast({
+    title: "Some data was skipped",
+    description: `${affectedRows} malformed record${affectedRows !== 1 ? "s" : ""} from ${api.provider.name} failed validation and ${affectedRows !== 1 ? "were" : "was"} left out.`,
+    variant: "destructive",
+  })
+}
+
+function notifyError(error: unknown) {
+  const rateLimited = error instanceof HttpError && error.isRateLimited
+
+  toast({
+    title: rateLimited ? "Rate limit reached" : "Unable to load sports data",
+    description: rateLimited
+      ? `${api.provider.name} is limiting requests. Please wait a minute and try again.`
+      : "There was an issue loading data from the sports API. Please try again.",
+    variant: "destructive",
+  })
+}
+
+/**
+ * User-facing explanation for a failed tab load, shown by ApiError
+ */
+export function getTabErrorMessage(error: unknown): string {
+  if (dataSettings.isMockFallbackEnabled()) {
+    return "Unable to connect to sports data service. This may be due to API access restrictions or network issues."
+  }
+  return `Unable to load data from ${api.provider.name}: ${(error as Error)?.message || "unknown error"}. Demo data fallback is turned off.`
+}
+
+/**
+ * Load a registered tab through React Query
+ * Switching tab or selection changes the query key, which cancels the old request;
+ * retries are left to the RequestScheduler, which already backs off on 429/5xx.
+ * The returned refetch is for refreshes the user asks for; they are confirmed with a toast.
+ */
+export function useTabQuery(tab: TabDefinition | undefined, context: TabContext | null, autoRefresh: boolean) {
+  const queryClient = useQueryClient()
+  // Set by refetch, so a refresh the user asked for is confirmed like a first load
+  const userRequested = useRef(false)
+  const queryKey = tab && context ? tab.queryKey(context) : ["live-data", "idle"]
+
+  const query = useQuery({
+    queryKey,
+    queryFn: async ({ signal }) => {
+      const startedAt = Date.now()
+      const previous = userRequested.current ? undefined : queryClient.getQueryData(queryKey)
+      userRequested.current = false
+      try {
+        const data = await tab.load(api, context, signal)
+        notifyLoaded(tab, data, startedAt, previous)
+        return data
+      } catch (error) {
+        if (!isAbortError(error)) notifyError(error)
+        throw error
+      }
+    },
+    enabled: !!tab && !!context,
+    refetchInterval: autoRefresh ? tab?.refetchInterval ?? DEFAULT_REFETCH_INTERVAL : false,
+    refetchOnWindowFocus: false,
+    retry: false,
+  })
+
+  const { refetch } = query
+  const userRefetch = useCallback(() => {
+    userRequested.current = true
+    return refetch()
+  }, [refetch])
+
+  return { ...query, refetch: userRefetch }
+}
@@ -1,10 +1,25 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar } from 'recharts';
 import Header from '@/components/Header';
+import CompetitionSelect from '@/components/CompetitionSelect';
+import SeasonSelect from '@/components/SeasonSelect';
 import FootballAPI from '../utils/footballApi';
+import { competitionCatalog } from '../utils/competitionCatalog';
+import DataSourceBadge from '@/components/DataSourceBadge';
+import PositionHistoryChart from '@/components/PositionHistoryChart';
+import EloRatingsPanel from '@/components/EloRatingsPanel';
+import PredictionBacktest from '@/components/PredictionBacktest';
+import SeasonProjectionTable from '@/components/SeasonProjectionTable';
+import HeadToHead from '@/components/HeadToHead';
+import { useSeasons } from '@/hooks/use-seasons';
+import { getPositionHistory, PositionHistoryRow } from '../utils/standingsHistory';
+import { computeMatchMetrics, formatMargin, getPerformanceRadar, TeamMetrics } from '../utils/matchMetrics';
+import { loadSeasonResults } from '../utils/seasonResults';
+import { getStandingsZones, StandingsZone } from '../utils/standingsZones';
+import { DataProvenance, Match, Standing } from '@/types/football';
 
 interface TeamStats {
   name: string;
@@ -27,7 +42,7 @@ interface AnalyticsData {
   formAnalysis: Array<{ team: string; form: string; points: number; winRate: number }>;
   goalStats: Array<{ team: string; scored: number; conceded: number; difference: number }>;
   teamStats: TeamStats[];
-  defensiveStats: Array<{ team: string; cleanSheets: number; goalsAgainst: number; avgConceded: number }>;
+  defensiveStats: Array<{ team: string; cleanSheets: number; failedToScore: number; goalsAgainst: number; avgConceded: number }>;
   offensiveStats: Array<{ team: string; goalsFor: number; avgScored: number; efficiency: number }>;
   performanceRadar: Array<{ team: string; attack: number; defense: number; consistency: number }>;
   leagueOverview: {
@@ -37,6 +52,16 @@ interface AnalyticsData {
     mostGoals: string;
     bestDefense: string;
   };
+  /** Teams in table order with their position after each matchday */
+  tableTeams: string[];
+  positionHistory: PositionHistoryRow[];
+  /** Per-team metrics counted from results, in table order; empty without results */
+  matchMetrics: TeamMetrics[];
+  /** Current table and the season's usable matches, the inputs of the season simulation */
+  standings: Standing[];
+  seasonMatches: Match[];
+  zones: StandingsZone[];
+  provenance?: DataProvenance;
 }
 
 interface TeamComparison {
@@ -52,9 +77,8 @@ interface TeamComparison {
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8', '#82CA9D', '#FF6B6B', '#4ECDC4'];
 
 const Analytics = () => {
-  const [selectedCompetition, setSelectedCompetition] = useState('PL');
-  const [selectedSeason, setSelectedSeason] = useState<string>('2024-2025');
-  const [seasons, setSeasons] = useState<string[]>([]);
+  const [selectedCompetition, setSelectedCompetition] = useState(competitionCatalog.getDefaultCode());
+  const [selectedSeason, setSelectedSeason] = useState<string | undefined>(undefined);
   const [analyticsData, setAnalyticsData] = useState<AnalyticsData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -62,15 +86,11 @@ const Analytics = () => {
   const [selectedTeam2, setSelectedTeam2] = useState<string>('');
   const [teamComparison, setTeamComparison] = useState<TeamComparison | null>(null);
 
-  const api = new FootballAPI();
+  const api = useMemo(() => new FootballAPI(), []);
 
-  const competitions: Record<string, string> = {
-    'PL': 'Premier League',
-    'PD': 'La Liga',
-    'SA': 'Serie A',
-    'BL1': 'Bundesliga',
-    'FL1': 'Ligue 1'
-  };
+  const { seasons, currentSeason, error: seasonsError } = useSeasons(selectedCompetition);
+  // Keep the chosen season when the new competition has it, otherwise show its current season
+  const activeSeason = seasons.some(season => season.label === selectedSeason) ? selectedSeason : currentSeason;
 
   // Generate team comparison data
   const generateTeamComparison = (team1: TeamStats, team2: TeamStats): TeamComparison => {
@@ -106,33 +126,24 @@ const Analytics = () => {
   }, [selectedTeam1, selectedTeam2, analyticsData]);
 
   useEffect(() => {
-    const loadSeasons = async () => {
-      try {
-        const seasonsData = await api.fetchSeasons(selectedCompetition);
-        setSeasons(seasonsData);
-        if (seasonsData.length > 0 && !seasonsData.includes(selectedSeason)) {
-          setSelectedSeason(seasonsData[0]);
-        }
-      } catch (error) {
-        console.error('Error loading seasons:', error);
-        const fallbackSeasons = ['2024-2025', '2023-2024', '2022-2023'];
-        setSeasons(fallbackSeasons);
-      }
-    };
-    loadSeasons();
-  }, [selectedCompetition]);
+    if (seasonsError) {
+      setError('Failed to load seasons for this competition. Please try again.');
+      setLoading(false);
+    }
+  }, [seasonsError]);
 
   useEffect(() => {
     const loadAnalyticsData = async () => {
-      if (!selectedSeason) return;
+      if (!activeSeason) return;
       
       setLoading(true);
       setError(null);
       
       try {
-        console.log('Loading analytics data for:', selectedCompetition, selectedSeason);
+        console.log('Loading analytics data for:', selectedCompetition, activeSeason);
         
-        const standingsResponse = await api.fetchStandings(selectedCompetition, selectedSeason);
+        // Results are optional: without them only the position history is missing
+        const { standings: standingsResponse, matches: seasonMatches } = await loadSeasonResults(api, selectedCompetition, activeSeason);
         
         console.log('Standings response:', standingsResponse);
         
@@ -143,6 +154,12 @@ const Analytics = () => {
         const standings = standingsResponse.standings[0].table;
         console.log('Processing standings:', standings);
 
+        const positionHistory = getPositionHistory(seasonMatches, selectedCompetition, activeSeason);
+        const tableTeams = standings.map(row => row.team.name);
+        const tableOrder = (name: string) => tableTeams.includes(name) ? tableTeams.indexOf(name) : tableTeams.length;
+        const matchMetrics = computeMatchMetrics(seasonMatches)
+          .sort((a, b) => tableOrder(a.team.name) - tableOrder(b.team.name));
+
         // Process team statistics with enhanced metrics
         const teamStats: TeamStats[] = standings.map((team: any) => {
           const winRate = team.playedGames > 0 ? (team.won / team.playedGames) * 100 : 0;
@@ -187,15 +204,16 @@ const Analytics = () => {
             difference: team.goalDifference
           }));
 
-        // Defensive statistics
-        const defensiveStats = teamStats
-          .sort((a, b) => a.goalsAgainst - b.goalsAgainst)
+        // Defensive statistics: most clean sheets, then fewest goals conceded
+        const defensiveStats = [...matchMetrics]
+          .sort((a, b) => b.cleanSheets - a.cleanSheets || a.goalsAgainst - b.goalsAgainst)
           .slice(0, 8)
-          .map(team => ({
-            team: team.name.length > 12 ? team.name.substring(0, 12) + '...' : team.name,
-            cleanSheets: Math.max(0, team.played - Math.floor(team.goalsAgainst * 0.7)),
-            goalsAgainst: team.goalsAgainst,
-            avgConceded: team.avgGoalsAgainst
+          .map(entry => ({
+            team: entry.team.name.length > 12 ? entry.team.name.substring(0, 12) + '...' : entry.team.name,
+            cleanSheets: entry.cleanSheets,
+            failedToScore: entry.failedToScore,
+            goalsAgainst: entry.goalsAgainst,
+            avgConceded: entry.played > 0 ? Math.round((entry.goalsAgainst / entry.played) * 100) / 100 : 0
           }));
 
         // Offensive statistics
@@ -209,14 +227,12 @@ const Analytics = () => {
             efficiency: team.played > 0 ? Math.round((team.points / (team.played * 3)) * 100) : 0
           }));
 
-        // Performance radar for top 6 teams
-        const performanceRadar = teamStats
+        // Performance radar for the top 6 teams; formulas in src/utils/matchMetrics.ts
+        const performanceRadar = getPerformanceRadar(matchMetrics)
           .slice(0, 6)
-          .map(team => ({
-            team: team.name.length > 10 ? team.name.substring(0, 10) + '...' : team.name,
-            attack: Math.round((team.avgGoalsFor / 3) * 100),
-            defense: Math.round(((3 - team.avgGoalsAgainst) / 3) * 100),
-            consistency: Math.round(team.winRate)
+          .map(point => ({
+            ...point,
+            team: point.team.length > 10 ? point.team.substring(0, 10) + '...' : point.team
           }));
 
         // League overview statistics
@@ -245,7 +261,14 @@ const Analytics = () => {
           defensiveStats,
           offensiveStats,
           performanceRadar,
-          leagueOverview
+          leagueOverview,
+          tableTeams,
+          positionHistory,
+          matchMetrics,
+          standings,
+          seasonMatches,
+          zones: getStandingsZones(selectedCompetition, activeSeason, standings.length),
+          provenance: standingsResponse.provenance
         };
 
         console.log('Generated analytics data:', analytics);
@@ -260,7 +283,12 @@ const Analytics = () => {
     };
 
     loadAnalyticsData();
-  }, [selectedCompetition, selectedSeason]);
+  }, [selectedCompetition, activeSeason]);
+
+  // Past meetings of the compared teams, looked up by the ids the table reports
+  const comparedTeams = teamComparison && [teamComparison.team1.name, teamComparison.team2.name]
+    .map(name => analyticsData?.standings.find(row => row.team.name === name)?.team);
+  const headToHeadTeams = comparedTeams?.every(Boolean) && comparedTeams[0].name !== comparedTeams[1].name ? comparedTeams : null;
 
   if (loading) {
     return (
@@ -294,32 +322,15 @@ const Analytics = () => {
 
       <div className="container mx-auto px-4 py-8">
         <div className="mb-8">
-                      <h2 className="text-3xl font-bold text-gray-900 mb-4">Footballytics Dashboard</h2>
+          <div className="flex items-center space-x-3 mb-4">
+            <h2 className="text-3xl font-bold text-gray-900">Footballytics Dashboard</h2>
+            <DataSourceBadge provenance={analyticsData?.provenance} />
+          </div>
           
           <div className="flex flex-col sm:flex-row gap-4 mb-6">
-            <Select value={selectedCompetition} onValueChange={setSelectedCompetition}>
-              <SelectTrigger className="w-full sm:w-[200px]">
-                <SelectValue placeholder="Select League" />
-              </SelectTrigger>
-              <SelectContent>
-                {Object.entries(competitions).map(([code, name]) => (
-                  <SelectItem key={code} value={code}>{name}</SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-
-            {seasons.length > 0 && (
-              <Select value={selectedSeason} onValueChange={setSelectedSeason}>
-                <SelectTrigger className="w-full sm:w-[150px]">
-                  <SelectValue placeholder="Select Season" />
-                </SelectTrigger>
-                <SelectContent>
-                  {seasons.map((season) => (
-                    <SelectItem key={season} value={season}>{season}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            )}
+            <CompetitionSelect value={selectedCompetition} onValueChange={setSelectedCompetition} />
+
+            <SeasonSelect seasons={seasons} value={activeSeason} onValueChange={setSelectedSeason} />
           </div>
         </div>
 
@@ -355,8 +366,9 @@ const Analytics = () => {
 
             {/* Team Comparison Section */}
             <Card className="mb-8">
-              <CardHeader>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
                 <CardTitle>Team Comparison Analysis</CardTitle>
+                <DataSourceBadge provenance={analyticsData.provenance} />
               </CardHeader>
               <CardContent>
                 <div className="flex flex-col sm:flex-row gap-4 mb-6">
@@ -443,16 +455,31 @@ const Analytics = () => {
                     </div>
                   </div>
                 )}
+
+                {headToHeadTeams && (
+                  <div className="mt-8 pt-6 border-t">
+                    <h4 className="text-lg font-semibold mb-4">All-Time Head to Head</h4>
+                    <HeadToHead
+                      key={`${headToHeadTeams[0].id}-${headToHeadTeams[1].id}`}
+                      teamA={headToHeadTeams[0]}
+                      teamB={headToHeadTeams[1]}
+                    />
+                  </div>
+                )}
               </CardContent>
             </Card>
 
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
               {/* Performance Radar */}
               <Card>
-                <CardHeader>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
                   <CardTitle>Team Performance Radar</CardTitle>
+                  <DataSourceBadge provenance={analyticsData.provenance} />
                 </CardHeader>
                 <CardContent>
+                  {analyticsData.performanceRadar.length === 0 && (
+                    <p className="text-sm text-gray-500 text-center">No match results available for this season.</p>
+                  )}
                   <ResponsiveContainer width="100%" height={300}>
                     <RadarChart data={analyticsData.performanceRadar}>
                       <PolarGrid />
@@ -464,13 +491,17 @@ const Analytics = () => {
                       <Tooltip />
                     </RadarChart>
                   </ResponsiveContainer>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Attack: goals per match as a % of the league's best rate. Defense: % of matches with a clean sheet. Consistency: % of matches not lost.
+                  </p>
                 </CardContent>
               </Card>
 
               {/* Offensive Statistics */}
               <Card>
-                <CardHeader>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
                   <CardTitle>Offensive Power</CardTitle>
+                  <DataSourceBadge provenance={analyticsData.provenance} />
                 </CardHeader>
                 <CardContent>
                   <ResponsiveContainer width="100%" height={300}>
@@ -493,10 +524,14 @@ const Analytics = () => {
 
               {/* Defensive Statistics */}
               <Card>
-                <CardHeader>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
                   <CardTitle>Defensive Strength</CardTitle>
+                  <DataSourceBadge provenance={analyticsData.provenance} />
                 </CardHeader>
                 <CardContent>
+                  {analyticsData.defensiveStats.length === 0 && (
+                    <p className="text-sm text-gray-500 text-center">No match results available for this season.</p>
+                  )}
                   <ResponsiveContainer width="100%" height={300}>
                     <BarChart data={analyticsData.defensiveStats}>
                       <CartesianGrid strokeDasharray="3 3" />
@@ -510,16 +545,21 @@ const Analytics = () => {
                       <YAxis />
                       <Tooltip />
                       <Bar dataKey="goalsAgainst" fill="#ef4444" name="Goals Conceded" />
-                      <Bar dataKey="cleanSheets" fill="#3b82f6" name="Clean Sheets (Est.)" />
+                      <Bar dataKey="cleanSheets" fill="#3b82f6" name="Clean Sheets" />
+                      <Bar dataKey="failedToScore" fill="#9ca3af" name="Failed to Score" />
                     </BarChart>
                   </ResponsiveContainer>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Teams with the most clean sheets (matches without conceding), counted from finished results.
+                  </p>
                 </CardContent>
               </Card>
 
               {/* Goals Scored vs Conceded */}
               <Card>
-                <CardHeader>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
                   <CardTitle>Goals Analysis</CardTitle>
+                  <DataSourceBadge provenance={analyticsData.provenance} />
                 </CardHeader>
                 <CardContent>
                   <ResponsiveContainer width="100%" height={300}>
@@ -542,10 +582,119 @@ const Analytics = () => {
               </Card>
             </div>
 
+            {/* Position Over Time */}
+            <Card className="mb-8">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle>Position Over Time</CardTitle>
+                <DataSourceBadge provenance={analyticsData.provenance} />
+              </CardHeader>
+              <CardContent>
+                <PositionHistoryChart
+                  key={`${selectedCompetition}-${activeSeason}`}
+                  history={analyticsData.positionHistory}
+                  teams={analyticsData.tableTeams}
+                  colors={COLORS}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Season Projection */}
+            <Card className="mb-8">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle>Season Projection</CardTitle>
+                <DataSourceBadge provenance={analyticsData.provenance} />
+              </CardHeader>
+              <CardContent>
+                <SeasonProjectionTable
+                  standings={analyticsData.standings}
+                  matches={analyticsData.seasonMatches}
+                  zones={analyticsData.zones}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Elo Ratings */}
+            <Card className="mb-8">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle>Elo Ratings</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <EloRatingsPanel
+                  api={api}
+                  competition={selectedCompetition}
+                  seasons={seasons}
+                  tableTeams={analyticsData.tableTeams}
+                  colors={COLORS}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Prediction Backtest */}
+            <Card className="mb-8">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle>Prediction Backtest</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <PredictionBacktest
+                  key={`${selectedCompetition}-${activeSeason}`}
+                  api={api}
+                  competition={selectedCompetition}
+                  season={activeSeason}
+                  seasons={seasons}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Match Metrics */}
+            {analyticsData.matchMetrics.length > 0 && (
+              <Card className="mb-8">
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <CardTitle>Match Metrics</CardTitle>
+                  <DataSourceBadge provenance={analyticsData.provenance} />
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b">
+                          <th className="text-left p-2">Team</th>
+                          <th className="text-center p-2">Clean Sheets</th>
+                          <th className="text-center p-2">Failed to Score</th>
+                          <th className="text-left p-2">Biggest Win</th>
+                          <th className="text-left p-2">Biggest Loss</th>
+                          <th className="text-center p-2">Pts from Losing Positions</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {analyticsData.matchMetrics.map((entry) => (
+                          <tr key={entry.team.name} className="border-b hover:bg-gray-50">
+                            <td className="p-2">{entry.team.name}</td>
+                            <td className="p-2 text-center">{entry.cleanSheets}</td>
+                            <td className="p-2 text-center">{entry.failedToScore}</td>
+                            <td className="p-2 text-green-700">{formatMargin(entry.biggestWin)}</td>
+                            <td className="p-2 text-red-700">{formatMargin(entry.biggestLoss)}</td>
+                            <td className="p-2 text-center">
+                              {entry.pointsFromLosingPositions === null
+                                ? '-'
+                                : `${entry.pointsFromLosingPositions} (${entry.trailingAtHalfTime} trailing at HT)`}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Losing positions are matches the team trailed at half-time; shown only when the provider reports half-time scores.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
             {/* League Table Summary */}
             <Card>
-              <CardHeader>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
                 <CardTitle>Detailed League Performance</CardTitle>
+                <DataSourceBadge provenance={analyticsData.provenance} />
               </CardHeader>
               <CardContent>
                 <div className="overflow-x-auto">
@@ -0,0 +1,200 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, Calendar, Flag, MapPin, Trophy, Users } from 'lucide-react';
+import Header from '@/components/Header';
+import DataSourceBadge from '@/components/DataSourceBadge';
+import HeadToHead from '@/components/HeadToHead';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import FootballAPI from '../utils/footballApi';
+import { getTabErrorMessage } from '@/hooks/use-tab-query';
+import { Match } from '@/types/football';
+import ApiError from './live-data-components/ApiError';
+import StatsView from './live-data-components/StatsView';
+import LineupView from './live-data-components/LineupView';
+import TimelineView from './live-data-components/TimelineView';
+
+const api = new FootballAPI();
+
+const DETAIL_STALE_TIME = 5 * 60 * 1000;
+
+const hasScore = (match: Match) => match.status === 'FINISHED' || match.status === 'IN_PLAY' || match.status === 'LIVE';
+
+const TabLoading = () => (
+  <div className="p-4 space-y-4">
+    <Skeleton className="h-10 w-full" />
+    <Skeleton className="h-40 w-full" />
+  </div>
+);
+
+const TabFailed = () => <p className="p-4 text-center text-red-500">Could not load this part of the match.</p>;
+
+const MatchInfo: React.FC<{ match: Match }> = ({ match }) => {
+  const rows = [
+    { icon: Trophy, label: 'Competition', value: [match.competition.name, match.season].filter(Boolean).join(' · ') },
+    { icon: Flag, label: 'Round', value: match.matchday ? `Matchday ${match.matchday}` : null },
+    { icon: Calendar, label: 'Kick-off', value: new Date(match.utcDate).toLocaleString([], { dateStyle: 'full', timeStyle: 'short' }) },
+    { icon: MapPin, label: 'Venue', value: match.venue },
+    { icon: Users, label: 'Attendance', value: typeof match.attendance === 'number' && match.attendance > 0 ? match.attendance.toLocaleString() : null },
+    { icon: Flag, label: 'Referee', value: match.referee }
+  ];
+
+  return (
+    <dl className="divide-y p-4">
+      {rows.map(({ icon: Icon, label, value }) => (
+        <div key={label} className="flex items-center gap-3 py-3 text-sm">
+          <Icon className="h-4 w-4 text-gray-400" />
+          <dt className="w-28 text-gray-500">{label}</dt>
+          <dd className="font-medium text-gray-900">{value || <span className="text-gray-400 font-normal">Not reported</span>}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
+const MatchDetail = () => {
+  const { id } = useParams<{ id: string }>();
+
+  const matchQuery = useQuery({
+    queryKey: ['match', id, api.provider.id],
+    queryFn: ({ signal }) => api.fetchMatch(id, signal),
+    enabled: !!id,
+    staleTime: DETAIL_STALE_TIME
+  });
+  const statsQuery = useQuery({
+    queryKey: ['matchStats', id, api.provider.id],
+    queryFn: ({ signal }) => api.fetchEventStats(id, signal),
+    enabled: !!id,
+    staleTime: DETAIL_STALE_TIME
+  });
+  const lineupQuery = useQuery({
+    queryKey: ['matchLineup', id, api.provider.id],
+    queryFn: ({ signal }) => api.fetchLineup(id, signal),
+    enabled: !!id,
+    staleTime: DETAIL_STALE_TIME
+  });
+  const timelineQuery = useQuery({
+    queryKey: ['matchTimeline', id, api.provider.id],
+    queryFn: ({ signal }) => api.fetchTimeline(id, signal),
+    enabled: !!id,
+    staleTime: DETAIL_STALE_TIME
+  });
+
+  const match = matchQuery.data?.match;
+
+  const renderContent = () => {
+    if (matchQuery.isPending) {
+      return <TabLoading />;
+    }
+
+    if (matchQuery.error) {
+      return <ApiError message={getTabErrorMessage(matchQuery.error)} onRetry={() => matchQuery.refetch()} />;
+    }
+
+    if (!match) {
+      return (
+        <div className="text-center py-12 text-gray-500">
+          Match {id} was not found. It may belong to a different data provider.
+        </div>
+      );
+    }
+
+    // Past meetings preview a fixture that has not been played yet
+    const upcoming = match.status === 'SCHEDULED';
+
+    return (
+      <div className="space-y-6">
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex flex-col items-center gap-2 w-2/5 text-center">
+                {match.homeTeam.crest && <img src={match.homeTeam.crest} alt={match.homeTeam.name} className="w-14 h-14 object-contain" />}
+                <Link to={`/team/${match.homeTeam.id}`} className="font-bold text-lg hover:text-blue-700 hover:underline">{match.homeTeam.name}</Link>
+              </div>
+              <div className="text-center">
+                <p className="text-4xl font-bold">
+                  {hasScore(match) ? `${match.score.fullTime.home ?? '?'} - ${match.score.fullTime.away ?? '?'}` : 'vs'}
+                </p>
+                {typeof match.score.halfTime?.home === 'number' && typeof match.score.halfTime?.away === 'number' && (
+                  <p className="text-xs text-gray-500 mt-1">HT {match.score.halfTime.home} - {match.score.halfTime.away}</p>
+                )}
+                <Badge className="mt-2" variant={match.status === 'FINISHED' ? 'secondary' : match.status === 'SCHEDULED' ? 'default' : 'destructive'}>
+                  {match.status === 'IN_PLAY' || match.status === 'LIVE' ? 'LIVE' : match.status}
+                </Badge>
+              </div>
+              <div className="flex flex-col items-center gap-2 w-2/5 text-center">
+                {match.awayTeam.crest && <img src={match.awayTeam.crest} alt={match.awayTeam.name} className="w-14 h-14 object-contain" />}
+                <Link to={`/team/${match.awayTeam.id}`} className="font-bold text-lg hover:text-blue-700 hover:underline">{match.awayTeam.name}</Link>
+              </div>
+            </div>
+            <div className="mt-4 flex justify-center">
+              <DataSourceBadge provenance={matchQuery.data?.provenance} />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Tabs defaultValue={upcoming ? 'h2h' : 'stats'}>
+          <TabsList>
+            {upcoming && <TabsTrigger value="h2h">Head to Head</TabsTrigger>}
+            <TabsTrigger value="stats">Stats</TabsTrigger>
+            <TabsTrigger value="lineup">Lineups</TabsTrigger>
+            <TabsTrigger value="timeline">Timeline</TabsTrigger>
+            <TabsTrigger value="info">Match Info</TabsTrigger>
+          </TabsList>
+          <div className="bg-white rounded-lg shadow mt-2">
+            <TabsContent value="stats" className="mt-0">
+              {statsQuery.isPending ? <TabLoading /> : statsQuery.error ? <TabFailed /> : <StatsView stats={statsQuery.data.eventstats} />}
+            </TabsContent>
+            <TabsContent value="lineup" className="mt-0">
+              {lineupQuery.isPending ? <TabLoading /> : lineupQuery.error ? <TabFailed /> : (
+                <LineupView
+                  lineup={lineupQuery.data.lineup}
+                  homeTeamId={match.homeTeam.id}
+                  awayTeamId={match.awayTeam.id}
+                  homeTeamName={match.homeTeam.name}
+                  awayTeamName={match.awayTeam.name}
+                />
+              )}
+            </TabsContent>
+            <TabsContent value="timeline" className="mt-0 px-4">
+              {timelineQuery.isPending ? <TabLoading /> : timelineQuery.error ? <TabFailed /> : (
+                <TimelineView
+                  timeline={timelineQuery.data.timeline}
+                  homeTeamName={match.homeTeam.name}
+                  awayTeamName={match.awayTeam.name}
+                />
+              )}
+            </TabsContent>
+            <TabsContent value="info" className="mt-0">
+              <MatchInfo match={match} />
+            </TabsContent>
+            {upcoming && (
+              <TabsContent value="h2h" className="mt-0 p-4">
+                <HeadToHead teamA={match.homeTeam} teamB={match.awayTeam} />
+              </TabsContent>
+            )}
+          </div>
+        </Tabs>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <Link to="/live" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-6">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Data
+        </Link>
+        {renderContent()}
+      </div>
+    </div>
+  );
+};
+
+export default MatchDetail;
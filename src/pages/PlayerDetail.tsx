@@ -0,0 +1,289 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, Award, Calendar, Flag, MapPin, Ruler, Shirt } from 'lucide-react';
+import Header from '@/components/Header';
+import CompetitionSelect from '@/components/CompetitionSelect';
+import SeasonSelect from '@/components/SeasonSelect';
+import DataSourceBadge from '@/components/DataSourceBadge';
+import PlayerSearch from '@/components/PlayerSearch';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import FootballAPI from '../utils/footballApi';
+import { competitionCatalog } from '../utils/competitionCatalog';
+import { aggregatePlayerSeason } from '../utils/playerSeasonStats';
+import { getAge, getSeasonClub, groupHonours } from '../utils/playerProfile';
+import { isCompletedMatch } from '../utils/standingsEngine';
+import { useMatchDetails } from '@/hooks/use-match-details';
+import { useSeasons } from '@/hooks/use-seasons';
+import { getTabErrorMessage } from '@/hooks/use-tab-query';
+import { Match, Player } from '@/types/football';
+import ApiError from './live-data-components/ApiError';
+import PlayerSeason from './player-components/PlayerSeason';
+
+const api = new FootballAPI();
+
+const DETAIL_STALE_TIME = 5 * 60 * 1000;
+
+const SectionLoading = () => (
+  <div className="space-y-4">
+    <Skeleton className="h-10 w-full" />
+    <Skeleton className="h-40 w-full" />
+  </div>
+);
+
+/**
+ * Finished matches of a club in a competition season
+ */
+const loadClubMatches = async (club: { id: string; name: string }, competition: string, season: string, signal: AbortSignal): Promise<Match[]> => {
+  const { matches } = await api.fetchCompetitionMatches(competition, season, signal);
+  return matches.filter(match =>
+    isCompletedMatch(match) && [match.homeTeam, match.awayTeam].some(side => side.id === club.id || side.name === club.name)
+  );
+};
+
+const Bio: React.FC<{ player: Player }> = ({ player }) => {
+  const age = getAge(player.dateOfBirth);
+  const rows = [
+    { icon: Shirt, label: 'Position', value: [player.position, player.shirtNumber ? `#${player.shirtNumber}` : null].filter(Boolean).join(' · ') },
+    { icon: Flag, label: 'Nationality', value: player.nationality },
+    { icon: Calendar, label: 'Born', value: player.dateOfBirth ? `${new Date(player.dateOfBirth).toLocaleDateString([], { dateStyle: 'long' })}${age !== null ? ` (age ${age})` : ''}` : null },
+    { icon: MapPin, label: 'Birthplace', value: player.birthPlace },
+    { icon: Ruler, label: 'Height / weight', value: [player.height, player.weight].filter(Boolean).join(' · ') }
+  ].filter(row => row.value);
+
+  return (
+    <dl className="divide-y">
+      {rows.map(({ icon: Icon, label, value }) => (
+        <div key={label} className="flex items-center gap-3 py-2 text-sm">
+          <Icon className="h-4 w-4 text-gray-400" />
+          <dt className="w-32 text-gray-500">{label}</dt>
+          <dd className="font-medium text-gray-900">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
+const PlayerDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const playerQuery = useQuery({
+    queryKey: ['player', id, api.provider.id],
+    queryFn: ({ signal }) => api.fetchPlayer(id, signal),
+    enabled: !!id,
+    staleTime: DETAIL_STALE_TIME
+  });
+  const player = playerQuery.data?.player;
+  const teamId = player?.currentTeam?.id;
+
+  // The club's league is the default competition for the season statistics
+  const teamQuery = useQuery({
+    queryKey: ['team', teamId, api.provider.id],
+    queryFn: ({ signal }) => api.fetchTeam(teamId, signal),
+    enabled: !!teamId,
+    staleTime: DETAIL_STALE_TIME
+  });
+
+  const requestedCompetition = searchParams.get('competition');
+  const competition = requestedCompetition && competitionCatalog.get(requestedCompetition)
+    ? requestedCompetition
+    : teamQuery.data?.competition ?? competitionCatalog.getDefaultCode();
+  const { seasons, currentSeason } = useSeasons(competition);
+  const requestedSeason = searchParams.get('season');
+  const season = seasons.some(entry => entry.label === requestedSeason) ? requestedSeason : currentSeason;
+
+  // Earlier seasons count the matches of the club the player was at then
+  const club = player && season ? getSeasonClub(player, season) : undefined;
+  const seasonQuery = useQuery({
+    queryKey: ['clubMatches', club?.id, competition, season, api.provider.id],
+    queryFn: ({ signal }) => loadClubMatches(club, competition, season, signal),
+    enabled: !!club && !!season && !teamQuery.isPending,
+    staleTime: DETAIL_STALE_TIME
+  });
+
+  // Two requests per match, so details are only loaded when asked for
+  const [countedSeason, setCountedSeason] = useState<string | null>(null);
+  const seasonKey = `${competition}/${season}/${club?.id}`;
+  const counting = countedSeason === seasonKey;
+  const clubMatches = seasonQuery.data;
+  const counted = useMemo(() => counting && clubMatches ? clubMatches : [], [counting, clubMatches]);
+  const { details, loaded } = useMatchDetails(counted);
+  const stats = useMemo(() => player ? aggregatePlayerSeason(player, details) : null, [player, details]);
+
+  const updateSearchParams = (changes: Record<string, string | null>) => {
+    setSearchParams(params => {
+      const next = new URLSearchParams(params);
+      Object.entries(changes).forEach(([key, value]) => value ? next.set(key, value) : next.delete(key));
+      return next;
+    }, { replace: true });
+  };
+
+  const renderContent = () => {
+    if (playerQuery.isPending) {
+      return <SectionLoading />;
+    }
+
+    if (playerQuery.error) {
+      return <ApiError message={getTabErrorMessage(playerQuery.error)} onRetry={() => playerQuery.refetch()} />;
+    }
+
+    if (!player) {
+      return (
+        <div className="text-center py-12 text-gray-500">
+          Player {id} was not found. It may belong to a different data provider.
+        </div>
+      );
+    }
+
+    const honours = groupHonours(player.honours ?? []);
+    const formerTeams = player.formerTeams ?? [];
+
+    return (
+      <div className="space-y-6">
+        <Card>
+          <CardContent className="p-6 flex flex-col md:flex-row gap-6">
+            {player.photo && <img src={player.photo} alt={player.name} className="w-40 h-40 object-contain self-center" />}
+            <div className="flex-1 space-y-3">
+              <div className="flex flex-wrap items-center gap-3">
+                <h1 className="text-3xl font-bold text-gray-900">{player.name}</h1>
+                <DataSourceBadge provenance={playerQuery.data?.provenance} />
+              </div>
+              {player.currentTeam && (
+                <Link to={`/team/${player.currentTeam.id}`} className="inline-flex items-center gap-2 text-blue-700 hover:underline">
+                  {player.currentTeam.crest && <img src={player.currentTeam.crest} alt="" className="h-5 w-5 object-contain" />}
+                  {player.currentTeam.name}
+                </Link>
+              )}
+              <Bio player={player} />
+            </div>
+          </CardContent>
+          {player.description && (
+            <CardContent className="pt-0">
+              <p className="text-sm text-gray-600 whitespace-pre-line line-clamp-6">{player.description}</p>
+            </CardContent>
+          )}
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 space-y-0">
+            <CardTitle>Season Statistics</CardTitle>
+            {club && (
+              <div className="flex flex-col sm:flex-row gap-2">
+                <CompetitionSelect value={competition} onValueChange={(code) => updateSearchParams({ competition: code, season: null })} />
+                <SeasonSelect seasons={seasons} value={season} onValueChange={(label) => updateSearchParams({ competition, season: label })} />
+              </div>
+            )}
+          </CardHeader>
+          <CardContent>
+            {!club ? (
+              <p className="text-center py-8 text-gray-500">The provider reports no current club, so there are no matches to count.</p>
+            ) : !season || seasonQuery.isPending ? <SectionLoading /> : seasonQuery.error ? (
+              <ApiError message={getTabErrorMessage(seasonQuery.error)} onRetry={() => seasonQuery.refetch()} />
+            ) : !counting && clubMatches.length > 0 ? (
+              <div className="flex flex-col items-center gap-3 py-8 text-center">
+                <Button variant="outline" onClick={() => setCountedSeason(seasonKey)}>Count season statistics</Button>
+                <p className="text-xs text-gray-500 max-w-md">
+                  Loads the lineup and timeline of {club.name}'s {clubMatches.length} finished matches: {clubMatches.length * 2} requests, which can take several minutes on a rate-limited API.
+                </p>
+              </div>
+            ) : loaded < counted.length ? (
+              <div className="space-y-1 py-8">
+                <Progress value={(loaded / counted.length) * 100} className="h-2" />
+                <p className="text-xs text-gray-500 text-center">Counting match details: {loaded} of {counted.length} matches</p>
+              </div>
+            ) : (
+              <PlayerSeason stats={stats} matchCount={clubMatches.length} team={club} />
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Club History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {formerTeams.length === 0 ? (
+                <p className="text-sm text-gray-500">The provider reports no former clubs.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Years</TableHead>
+                      <TableHead>Club</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {formerTeams.map((team, index) => (
+                      <TableRow key={`${team.teamId}-${index}`}>
+                        <TableCell className="text-sm text-gray-500 whitespace-nowrap">{[team.joined, team.departed].filter(Boolean).join(' - ')}</TableCell>
+                        <TableCell>
+                          <span className="inline-flex items-center gap-2">
+                            {team.crest && <img src={team.crest} alt="" className="h-5 w-5 object-contain" />}
+                            {team.teamName}
+                            {team.moveType && team.moveType !== 'Permanent' && <Badge variant="outline">{team.moveType}</Badge>}
+                          </span>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Honours</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {honours.length === 0 ? (
+                <p className="text-sm text-gray-500">The provider reports no honours.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {honours.map(honour => (
+                    <li key={honour.title} className="flex gap-3 text-sm">
+                      <Award className="h-4 w-4 text-yellow-500 mt-0.5" />
+                      <div>
+                        <p className="font-medium">{honour.seasons.length > 1 ? `${honour.seasons.length}× ` : ''}{honour.title}</p>
+                        <p className="text-xs text-gray-500">{honour.seasons.join(', ')}</p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+          <Link
+            to={player?.currentTeam ? `/team/${player.currentTeam.id}` : '/live'}
+            className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            {player?.currentTeam ? `Back to ${player.currentTeam.name}` : 'Back to Data'}
+          </Link>
+          <PlayerSearch />
+        </div>
+        {renderContent()}
+      </div>
+    </div>
+  );
+};
+
+export default PlayerDetail;
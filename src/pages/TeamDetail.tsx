@@ -0,0 +1,197 @@
+import React from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, Calendar, Globe, MapPin } from 'lucide-react';
+import Header from '@/components/Header';
+import CompetitionSelect from '@/components/CompetitionSelect';
+import SeasonSelect from '@/components/SeasonSelect';
+import DataSourceBadge from '@/components/DataSourceBadge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import FootballAPI from '../utils/footballApi';
+import { competitionCatalog } from '../utils/competitionCatalog';
+import { loadSeasonResults } from '../utils/seasonResults';
+import { useSeasons } from '@/hooks/use-seasons';
+import { getTabErrorMessage } from '@/hooks/use-tab-query';
+import ApiError from './live-data-components/ApiError';
+import TeamFixtures from './team-components/TeamFixtures';
+import TeamSeason from './team-components/TeamSeason';
+import TeamSquad from './team-components/TeamSquad';
+
+const api = new FootballAPI();
+
+const DETAIL_STALE_TIME = 5 * 60 * 1000;
+
+const SectionLoading = () => (
+  <div className="space-y-4">
+    <Skeleton className="h-10 w-full" />
+    <Skeleton className="h-40 w-full" />
+  </div>
+);
+
+const SectionFailed = ({ what }: { what: string }) => <p className="text-center text-red-500 py-4">Could not load {what}.</p>;
+
+const TeamDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const teamQuery = useQuery({
+    queryKey: ['team', id, api.provider.id],
+    queryFn: ({ signal }) => api.fetchTeam(id, signal),
+    enabled: !!id,
+    staleTime: DETAIL_STALE_TIME
+  });
+  const matchesQuery = useQuery({
+    queryKey: ['teamMatches', id, api.provider.id],
+    queryFn: ({ signal }) => api.fetchTeamMatches(id, signal),
+    enabled: !!id,
+    staleTime: DETAIL_STALE_TIME
+  });
+
+  // The competition comes from the link, else the league the provider places the team in
+  const requestedCompetition = searchParams.get('competition');
+  const competition = requestedCompetition && competitionCatalog.get(requestedCompetition)
+    ? requestedCompetition
+    : teamQuery.data?.competition ?? competitionCatalog.getDefaultCode();
+  const { seasons, currentSeason } = useSeasons(competition);
+  const requestedSeason = searchParams.get('season');
+  const season = seasons.some(entry => entry.label === requestedSeason) ? requestedSeason : currentSeason;
+
+  const seasonQuery = useQuery({
+    queryKey: ['teamSeason', competition, season, api.provider.id],
+    queryFn: ({ signal }) => loadSeasonResults(api, competition, season, signal),
+    enabled: !!season && !teamQuery.isPending,
+    staleTime: DETAIL_STALE_TIME
+  });
+
+  const updateSearchParams = (changes: Record<string, string | null>) => {
+    setSearchParams(params => {
+      const next = new URLSearchParams(params);
+      Object.entries(changes).forEach(([key, value]) => value ? next.set(key, value) : next.delete(key));
+      return next;
+    }, { replace: true });
+  };
+
+  const team = teamQuery.data?.team;
+
+  const renderContent = () => {
+    if (teamQuery.isPending) {
+      return <SectionLoading />;
+    }
+
+    if (teamQuery.error) {
+      return <ApiError message={getTabErrorMessage(teamQuery.error)} onRetry={() => teamQuery.refetch()} />;
+    }
+
+    if (!team) {
+      return (
+        <div className="text-center py-12 text-gray-500">
+          Team {id} was not found. It may belong to a different data provider.
+        </div>
+      );
+    }
+
+    const website = team.website && (team.website.startsWith('http') ? team.website : `https://${team.website}`);
+    const details = [
+      { icon: Calendar, value: team.founded ? `Founded ${team.founded}` : null, href: null },
+      { icon: MapPin, value: [team.venue, team.location].filter(Boolean).join(', '), href: null },
+      { icon: Globe, value: team.website, href: website }
+    ].filter(detail => detail.value);
+
+    return (
+      <div className="space-y-6">
+        <Card>
+          <CardContent className="p-6 flex flex-col sm:flex-row items-center gap-6">
+            {team.crest && <img src={team.crest} alt={team.name} className="w-20 h-20 object-contain" />}
+            <div className="flex-1 text-center sm:text-left">
+              <h1 className="text-3xl font-bold text-gray-900">{team.name}</h1>
+              <div className="mt-2 flex flex-wrap justify-center sm:justify-start gap-x-4 gap-y-1 text-sm text-gray-600">
+                {details.map(({ icon: Icon, value, href }) => (
+                  <span key={value} className="inline-flex items-center gap-1">
+                    <Icon className="h-4 w-4 text-gray-400" />
+                    {href ? (
+                      <a
+                        href={href}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:text-blue-800 underline"
+                      >
+                        {value}
+                      </a>
+                    ) : value}
+                  </span>
+                ))}
+              </div>
+            </div>
+            <DataSourceBadge provenance={teamQuery.data?.provenance} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              Results and Fixtures
+              <DataSourceBadge provenance={matchesQuery.data?.provenance} />
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {matchesQuery.isPending ? <SectionLoading /> : matchesQuery.error ? <SectionFailed what="the team's matches" /> : (
+              <TeamFixtures team={team} matches={matchesQuery.data.matches} />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 space-y-0">
+            <CardTitle className="flex items-center gap-2">
+              Season
+              <DataSourceBadge provenance={seasonQuery.data?.standings.provenance} />
+            </CardTitle>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <CompetitionSelect value={competition} onValueChange={(code) => updateSearchParams({ competition: code, season: null })} />
+              <SeasonSelect seasons={seasons} value={season} onValueChange={(label) => updateSearchParams({ competition, season: label })} />
+            </div>
+          </CardHeader>
+          <CardContent>
+            {!season || seasonQuery.isPending ? <SectionLoading /> : seasonQuery.error ? (
+              <ApiError message={getTabErrorMessage(seasonQuery.error)} onRetry={() => seasonQuery.refetch()} />
+            ) : (
+              <TeamSeason
+                team={team}
+                data={seasonQuery.data.standings}
+                matches={seasonQuery.data.matches}
+                competition={competition}
+                season={season}
+              />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Squad</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TeamSquad squad={team.squad ?? []} />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        <Link to="/live" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-6">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Data
+        </Link>
+        {renderContent()}
+      </div>
+    </div>
+  );
+};
+
+export default TeamDetail;
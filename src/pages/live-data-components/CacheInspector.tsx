@@ -0,0 +1,88 @@
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Database, Trash2 } from 'lucide-react';
+import { apiCache, CacheEntryInfo } from '@/utils/persistentCache';
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return `${Math.round(ms / 1000)}s`;
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.round(hours / 24)}d`;
+};
+
+const formatSize = (size: number) => size < 1024 ? `${size} B` : `${(size / 1024).toFixed(1)} KB`;
+
+const CacheInspector = () => {
+  const [open, setOpen] = useState(false);
+  const [entries, setEntries] = useState<CacheEntryInfo[]>([]);
+
+  const loadEntries = useCallback(async () => {
+    setEntries(await apiCache.list());
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    loadEntries();
+    return apiCache.subscribe(loadEntries);
+  }, [open, loadEntries]);
+
+  const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const staleCount = entries.filter(entry => !entry.isFresh).length;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center space-x-2">
+          <Database className="h-4 w-4" />
+          <span>Cache</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Cached API Responses</DialogTitle>
+          <DialogDescription>
+            {entries.length} entries ({formatSize(totalSize)}), {staleCount} stale. Stale entries are shown instantly and refreshed in the background.
+          </DialogDescription>
+        </DialogHeader>
+
+        {entries.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">The cache is empty.</p>
+        ) : (
+          <ScrollArea className="h-[400px] pr-4">
+            <div className="space-y-2">
+              {entries.map(entry => (
+                <div key={entry.key} className="flex items-center justify-between gap-4 p-2 border rounded text-sm">
+                  <div className="min-w-0 flex-1">
+                    <p className="font-mono text-xs text-gray-800 truncate" title={entry.key}>{entry.key}</p>
+                    <p className="text-xs text-gray-500">
+                      Cached {formatDuration(Date.now() - entry.timestamp)} ago · TTL {formatDuration(entry.ttl)} · {formatSize(entry.size)}
+                    </p>
+                  </div>
+                  <Badge variant={entry.isFresh ? 'secondary' : 'outline'}>{entry.isFresh ? 'Fresh' : 'Stale'}</Badge>
+                  <Button variant="ghost" size="icon" onClick={() => apiCache.delete(entry.key)} aria-label="Remove entry">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="destructive" onClick={() => apiCache.clear()} disabled={entries.length === 0}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clear Cache
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CacheInspector;
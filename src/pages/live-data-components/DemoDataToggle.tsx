@@ -0,0 +1,27 @@
+import React, { useState } from 'react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { dataSettings } from '@/utils/dataSettings';
+
+interface DemoDataToggleProps {
+  onChange?: (enabled: boolean) => void;
+}
+
+const DemoDataToggle: React.FC<DemoDataToggleProps> = ({ onChange }) => {
+  const [enabled, setEnabled] = useState(dataSettings.isMockFallbackEnabled());
+
+  const handleChange = (checked: boolean) => {
+    dataSettings.setMockFallbackEnabled(checked);
+    setEnabled(checked);
+    onChange?.(checked);
+  };
+
+  return (
+    <div className="flex items-center space-x-2" title="When off, provider failures are shown as errors instead of demo data">
+      <Switch id="demo-data-fallback" checked={enabled} onCheckedChange={handleChange} />
+      <Label htmlFor="demo-data-fallback" className="text-sm text-gray-700 whitespace-nowrap">Demo data fallback</Label>
+    </div>
+  );
+};
+
+export default DemoDataToggle;
@@ -0,0 +1,199 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowDown, ArrowUp, Medal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import DataSourceBadge from '@/components/DataSourceBadge';
+import { useMatchDetails } from '@/hooks/use-match-details';
+import { isCompletedMatch } from '@/utils/standingsEngine';
+import {
+  buildLeaderboard,
+  getPer90,
+  LEADERBOARD_STATS,
+  LeaderboardRow,
+  LeaderboardStat,
+  MIN_MINUTES_FOR_RATES
+} from '@/utils/playerLeaderboards';
+import { DataProvenance, Match, TopScorer } from '@/types/football';
+
+interface LeaderboardsViewProps {
+  matches: Match[];
+  scorers: TopScorer[];
+  competitionName: string;
+  seasonName: string;
+  provenance?: DataProvenance;
+  /** False for demo results, which have no lineups or timelines to count */
+  countDetails: boolean;
+}
+
+type SortKey = LeaderboardStat | 'appearances' | 'minutes';
+
+const ALL_TEAMS = 'all';
+const SHOWN_ROWS = 50;
+
+interface SortableHeadProps {
+  sortKey: SortKey;
+  label: string;
+  sort: { key: SortKey; descending: boolean };
+  onSort: (key: SortKey) => void;
+}
+
+const SortableHead: React.FC<SortableHeadProps> = ({ sortKey, label, sort, onSort }) => (
+  <TableHead className="text-center">
+    <button type="button" onClick={() => onSort(sortKey)} className="inline-flex items-center gap-1 hover:text-gray-900">
+      {label}
+      {sort.key === sortKey && (sort.descending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />)}
+    </button>
+  </TableHead>
+);
+
+const formatRate = (rate: number | null): string => rate === null ? '-' : rate.toFixed(2);
+
+const LeaderboardsView: React.FC<LeaderboardsViewProps> = ({ matches, scorers, competitionName, seasonName, provenance, countDetails }) => {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'goals', descending: true });
+  const [team, setTeam] = useState(ALL_TEAMS);
+  const [per90, setPer90] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+  // Two requests per finished match, so details are only loaded when asked for
+  const [counting, setCounting] = useState(false);
+
+  const finished = useMemo(() => countDetails ? matches.filter(isCompletedMatch) : [], [matches, countDetails]);
+  const counted = useMemo(() => counting ? finished : [], [finished, counting]);
+
+  const { details, loaded } = useMatchDetails(counted);
+  const rows = useMemo(() => buildLeaderboard(details, scorers), [details, scorers]);
+
+  const teams = [...new Set(rows.map(row => row.team).filter(Boolean))].sort();
+  const hasMinutes = rows.some(row => row.minutes !== null);
+
+  const getValue = (row: LeaderboardRow, key: SortKey): number | null => {
+    if (key === 'appearances') return row.appearances;
+    if (key === 'minutes') return row.minutes;
+    return per90 ? getPer90(row, key) : row[key];
+  };
+
+  // Players without a value (no minutes, or no rate) always sort last
+  const sorted = rows
+    .filter(row => team === ALL_TEAMS || row.team === team)
+    .filter(row => !per90 || (row.minutes !== null && row.minutes >= MIN_MINUTES_FOR_RATES))
+    .sort((a, b) => {
+      const valueA = getValue(a, sort.key);
+      const valueB = getValue(b, sort.key);
+      if (valueA === null || valueB === null) return valueA === valueB ? 0 : valueA === null ? 1 : -1;
+      return (sort.descending ? valueB - valueA : valueA - valueB) || a.name.localeCompare(b.name);
+    });
+  const shown = showAll ? sorted : sorted.slice(0, SHOWN_ROWS);
+
+  const toggleSort = (key: SortKey) => {
+    setSort(previous => ({ key, descending: previous.key === key ? !previous.descending : true }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gradient-to-r from-green-50 to-blue-50 p-4 rounded-lg space-y-3">
+        <div className="flex items-center space-x-2">
+          <h3 className="text-lg font-semibold text-gray-900">
+            {competitionName} Leaderboards - {seasonName}
+          </h3>
+          <DataSourceBadge provenance={provenance} />
+        </div>
+        <p className="text-sm text-gray-600">
+          {scorers.length > 0 ? 'Goals come from the provider\'s scorers list; ' : ''}
+          assists, cards, own goals and minutes are counted from the lineups and timelines of finished matches.
+        </p>
+        {finished.length > 0 && !counting && (
+          <div className="flex flex-wrap items-center gap-3">
+            <Button variant="outline" size="sm" onClick={() => setCounting(true)}>Count match details</Button>
+            <p className="text-xs text-gray-500">
+              Loads the lineup and timeline of all {finished.length} finished matches: {finished.length * 2} requests, which can take several minutes on a rate-limited API.
+            </p>
+          </div>
+        )}
+        {counting && loaded < finished.length && (
+          <div className="space-y-1">
+            <Progress value={(loaded / finished.length) * 100} className="h-2" />
+            <p className="text-xs text-gray-500">Counting match details: {loaded} of {finished.length} matches</p>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <Select value={team} onValueChange={setTeam}>
+          <SelectTrigger className="w-56 h-9">
+            <SelectValue placeholder="All teams" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_TEAMS}>All teams</SelectItem>
+            {teams.map(name => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center space-x-2" title={`Rates need lineups for every appearance and at least ${MIN_MINUTES_FOR_RATES} minutes`}>
+          <Switch id="leaderboard-per-90" checked={per90} onCheckedChange={setPer90} disabled={!hasMinutes} />
+          <Label htmlFor="leaderboard-per-90" className="text-sm text-gray-700">Per 90 minutes</Label>
+        </div>
+      </div>
+
+      {sorted.length === 0 ? (
+        <div className="text-center py-12">
+          <Medal className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">
+            {per90
+              ? `No player has ${MIN_MINUTES_FOR_RATES} timed minutes yet.`
+              : !counting && finished.length > 0 ? 'Count match details to build the leaderboards.'
+              : loaded < finished.length ? 'Counting match details...' : 'No player statistics available for this season.'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[50px]">#</TableHead>
+                <TableHead>Player</TableHead>
+                <TableHead>Team</TableHead>
+                <SortableHead sortKey="appearances" label="Apps" sort={sort} onSort={toggleSort} />
+                <SortableHead sortKey="minutes" label="Mins" sort={sort} onSort={toggleSort} />
+                {LEADERBOARD_STATS.map(stat => (
+                  <SortableHead key={stat.id} sortKey={stat.id} label={stat.label} sort={sort} onSort={toggleSort} />
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shown.map((row, index) => (
+                <TableRow key={row.key}>
+                  <TableCell className="text-gray-500">{index + 1}</TableCell>
+                  <TableCell className="font-medium">
+                    {row.playerId ? (
+                      <Link to={`/player/${row.playerId}`} className="hover:text-blue-700 hover:underline">{row.name}</Link>
+                    ) : row.name}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">{row.team || '-'}</TableCell>
+                  <TableCell className="text-center">{row.appearances || '-'}</TableCell>
+                  <TableCell className="text-center text-gray-600">{row.minutes ?? '-'}</TableCell>
+                  {LEADERBOARD_STATS.map(stat => (
+                    <TableCell key={stat.id} className={`text-center ${sort.key === stat.id ? 'font-bold' : ''}`}>
+                      {per90 ? formatRate(getPer90(row, stat.id)) : row[stat.id]}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {sorted.length > SHOWN_ROWS && (
+            <div className="p-3 text-center border-t">
+              <Button variant="ghost" size="sm" onClick={() => setShowAll(value => !value)}>
+                {showAll ? `Show top ${SHOWN_ROWS}` : `Show all ${sorted.length} players`}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LeaderboardsView;
@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from 'react';
+import { Match, StandingsResponse } from '@/types/football';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import {
+  DEFAULT_FORM_TABLE_LENGTH,
+  FORM_TABLE_LENGTHS,
+  getSplitTable,
+  isSplitAvailable,
+  STANDINGS_SPLITS,
+  StandingsSplit
+} from '@/utils/standingsSplits';
+import { coversTable } from '@/utils/standingsEngine';
+import { getMatchdays, withPositionChanges } from '@/utils/standingsHistory';
+import { getStandingsZones } from '@/utils/standingsZones';
+import StandingsTable from './StandingsTable';
+
+interface LeagueTablesViewProps {
+  data: StandingsResponse;
+  /** Season results used for the home, away and form tables */
+  matches: Match[];
+  competition: string;
+  competitionName: string;
+  seasonName: string;
+}
+
+const LeagueTablesView: React.FC<LeagueTablesViewProps> = ({ data, matches, competition, competitionName, seasonName }) => {
+  const [split, setSplit] = useState<StandingsSplit>('TOTAL');
+  const [formLength, setFormLength] = useState(DEFAULT_FORM_TABLE_LENGTH);
+  const [selectedMatchday, setSelectedMatchday] = useState<number | null>(null);
+
+  const matchdays = useMemo(() => getMatchdays(matches), [matches]);
+  const latestMatchday = matchdays[matchdays.length - 1];
+  // Follow the latest round unless the user picked one this season has
+  const matchday = matchdays.includes(selectedMatchday) ? selectedMatchday : latestMatchday;
+  const matchdayIndex = matchdays.indexOf(matchday);
+  const previousMatchday = matchdays[matchdayIndex - 1];
+
+  // The latest table may be the provider's, while earlier rounds are rebuilt from
+  // results; the two only compare when the results hold every game it counts
+  const resultsComplete = useMemo(() => coversTable(getSplitTable(data, matches, 'TOTAL'), matches), [data, matches]);
+
+  const table = useMemo(() => {
+    const latest = matchday === latestMatchday;
+    const current = getSplitTable(data, matches, split, {
+      formLength,
+      matchday: latest ? undefined : matchday
+    });
+    if (previousMatchday === undefined || (latest && !resultsComplete)) return current;
+    return withPositionChanges(current, getSplitTable(data, matches, split, { formLength, matchday: previousMatchday }));
+  }, [data, matches, split, formLength, matchday, latestMatchday, previousMatchday, resultsComplete]);
+
+  const description = split === 'TOTAL'
+    ? `League table with ${table.length} teams`
+    : split === 'FORM'
+      ? `Results over each team's last ${formLength} matches`
+      : `${split === 'HOME' ? 'Home' : 'Away'} matches only`;
+  const subtitle = matchday === undefined ? description : `${description} after matchday ${matchday}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={split}
+          onValueChange={(value) => value && setSplit(value as StandingsSplit)}
+        >
+          {STANDINGS_SPLITS.map(({ id, label }) => (
+            <ToggleGroupItem key={id} value={id} disabled={!isSplitAvailable(data, matches, id)}>
+              {label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        {split === 'FORM' && (
+          <Select value={String(formLength)} onValueChange={(value) => setFormLength(Number(value))}>
+            <SelectTrigger className="w-[150px] h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FORM_TABLE_LENGTHS.map((length) => (
+                <SelectItem key={length} value={String(length)}>Last {length} matches</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {matchdays.length > 1 && (
+          <div className="flex items-center gap-3 min-w-[240px] flex-1">
+            <span className="text-sm text-gray-600 whitespace-nowrap">Matchday {matchday}</span>
+            <Slider
+              min={0}
+              max={matchdays.length - 1}
+              step={1}
+              value={[matchdayIndex]}
+              onValueChange={([index]) => setSelectedMatchday(matchdays[index])}
+              aria-label="Matchday"
+            />
+            <span className="text-sm text-gray-400 whitespace-nowrap">of {latestMatchday}</span>
+          </div>
+        )}
+      </div>
+
+      <StandingsTable
+        standings={table}
+        competitionName={competitionName}
+        seasonName={seasonName}
+        provenance={data.provenance}
+        subtitle={subtitle}
+        zones={split === 'TOTAL' ? getStandingsZones(competition, seasonName, table.length) : []}
+      />
+    </div>
+  );
+};
+
+export default LeagueTablesView;
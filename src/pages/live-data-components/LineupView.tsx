@@ -1,38 +1,87 @@
-
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { LineupPlayer } from '@/types/football';
+import { getTeamLineup, TeamLineup } from '@/utils/lineupFormation';
+
+interface LineupViewProps {
+  lineup: LineupPlayer[];
+  homeTeamId: string;
+  awayTeamId: string;
+  homeTeamName?: string;
+  awayTeamName?: string;
+}
 
-const LineupView = ({ lineup, homeTeamId, awayTeamId }: { lineup: LineupPlayer[], homeTeamId: string, awayTeamId: string }) => {
-  const homeLineup = lineup.filter(p => p.idTeam === homeTeamId);
-  const awayLineup = lineup.filter(p => p.idTeam === awayTeamId);
+const PlayerMarker: React.FC<{ player: LineupPlayer; home: boolean }> = ({ player, home }) => (
+  <div className="flex flex-col items-center w-20 text-center">
+    <div className={`h-6 w-6 rounded-full border-2 border-white shadow ${home ? 'bg-green-600' : 'bg-blue-600'}`} />
+    <Link to={`/player/${player.idPlayer}`} className="mt-1 text-xs font-medium text-white leading-tight line-clamp-2 hover:underline">
+      {player.strPlayer}
+    </Link>
+  </div>
+);
 
+const PitchHalf: React.FC<{ lineup: TeamLineup; home: boolean }> = ({ lineup, home }) => {
+  // The home side defends the top goal, the away side the bottom one
+  const lines = home ? lineup.lines : [...lineup.lines].reverse();
+  return (
+    <div className="flex flex-col justify-around gap-4 py-4 min-h-[260px]">
+      {lines.map((line, index) => (
+        <div key={index} className="flex justify-around">
+          {line.map((player) => <PlayerMarker key={player.idPlayer} player={player} home={home} />)}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const Substitutes: React.FC<{ title: string; players: LineupPlayer[] }> = ({ title, players }) => (
+  <div>
+    <h4 className="font-bold text-sm mb-2">{title}</h4>
+    {players.length === 0 ? (
+      <p className="text-xs text-gray-500">No substitutes listed.</p>
+    ) : (
+      <ul className="space-y-1">
+        {players.map(player => (
+          <li key={player.idPlayer} className="text-sm flex justify-between">
+            <Link to={`/player/${player.idPlayer}`} className="hover:text-blue-700 hover:underline">{player.strPlayer}</Link>
+            <span className="text-gray-500">{player.strPosition}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const LineupView = ({ lineup, homeTeamId, awayTeamId, homeTeamName = 'Home', awayTeamName = 'Away' }: LineupViewProps) => {
   if (lineup.length === 0) {
     return <p className="text-gray-500 text-center py-4">No lineup information available.</p>;
   }
-  
+
+  const home = getTeamLineup(lineup.filter(p => p.idTeam === homeTeamId));
+  const away = getTeamLineup(lineup.filter(p => p.idTeam === awayTeamId));
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 gap-8 p-4">
-      <div>
-        <h4 className="font-bold text-lg mb-2 text-center">Home</h4>
-        <ul className="space-y-2">
-          {homeLineup.map(player => (
-            <li key={player.idPlayer} className="text-sm flex justify-between">
-              <span>{player.strPlayer}</span>
-              <span className="text-gray-500">{player.strPosition}</span>
-            </li>
-          ))}
-        </ul>
+    <div className="space-y-6 p-4">
+      <div className="max-w-xl mx-auto">
+        <div className="flex justify-between text-sm font-semibold mb-2">
+          <span>{homeTeamName}{home.formation && ` (${home.formation})`}</span>
+        </div>
+        <div className="rounded-lg bg-green-700 border-4 border-green-800 relative overflow-hidden">
+          <div className="absolute inset-x-0 top-1/2 border-t-2 border-white/40" />
+          <div className="absolute left-1/2 top-1/2 h-20 w-20 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white/40" />
+          <div className="relative">
+            <PitchHalf lineup={home} home />
+            <PitchHalf lineup={away} home={false} />
+          </div>
+        </div>
+        <div className="flex justify-between text-sm font-semibold mt-2">
+          <span>{awayTeamName}{away.formation && ` (${away.formation})`}</span>
+        </div>
       </div>
-      <div>
-        <h4 className="font-bold text-lg mb-2 text-center">Away</h4>
-        <ul className="space-y-2">
-          {awayLineup.map(player => (
-            <li key={player.idPlayer} className="text-sm flex justify-between">
-              <span>{player.strPlayer}</span>
-              <span className="text-gray-500">{player.strPosition}</span>
-            </li>
-          ))}
-        </ul>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <Substitutes title={`${homeTeamName} substitutes`} players={home.substitutes} />
+        <Substitutes title={`${awayTeamName} substitutes`} players={away.substitutes} />
       </div>
     </div>
   );
@@ -3,14 +3,42 @@ import React from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Match } from '@/types/football';
+import { MatchPrediction } from '@/utils/predictionModel';
 
 interface MatchCardProps {
   match: Match;
   onClick: () => void;
   isExpanded: boolean;
+  /** Model prediction shown under scheduled fixtures */
+  prediction?: MatchPrediction;
 }
 
-const MatchCard: React.FC<MatchCardProps> = ({ match, onClick, isExpanded }) => (
+const percent = (probability: number) => `${Math.round(probability * 100)}%`;
+
+const PredictionSummary: React.FC<{ prediction: MatchPrediction }> = ({ prediction }) => (
+  <div className="mt-3 pt-3 border-t border-gray-100 space-y-2">
+    <div className="flex h-2 rounded-full overflow-hidden" aria-hidden="true">
+      <div className="bg-green-500" style={{ width: percent(prediction.homeWin) }} />
+      <div className="bg-gray-400" style={{ width: percent(prediction.draw) }} />
+      <div className="bg-blue-500" style={{ width: percent(prediction.awayWin) }} />
+    </div>
+    <div className="flex flex-wrap justify-between gap-2 text-xs text-gray-600">
+      <span>
+        <span className="font-semibold text-green-700">Home {percent(prediction.homeWin)}</span>
+        {' · '}
+        <span className="font-semibold text-gray-700">Draw {percent(prediction.draw)}</span>
+        {' · '}
+        <span className="font-semibold text-blue-700">Away {percent(prediction.awayWin)}</span>
+      </span>
+      <span>xG {prediction.expectedGoals.home.toFixed(2)} - {prediction.expectedGoals.away.toFixed(2)}</span>
+      <span>
+        Likely: {prediction.scorelines.map(score => `${score.home}-${score.away} (${percent(score.probability)})`).join(', ')}
+      </span>
+    </div>
+  </div>
+);
+
+const MatchCard: React.FC<MatchCardProps> = ({ match, onClick, isExpanded, prediction }) => (
   <Card 
     className={`hover:shadow-md transition-all duration-300 cursor-pointer ${isExpanded ? 'bg-gray-50 shadow-inner' : 'bg-white'}`}
     onClick={onClick}
@@ -63,6 +91,7 @@ const MatchCard: React.FC<MatchCardProps> = ({ match, onClick, isExpanded }) =>
           </p>
         </div>
       </div>
+      {prediction && match.status === 'SCHEDULED' && <PredictionSummary prediction={prediction} />}
     </CardContent>
   </Card>
 );
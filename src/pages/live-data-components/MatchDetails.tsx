@@ -1,9 +1,12 @@
 
 import React from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowRight } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
 import FootballAPI from '@/utils/footballApi';
-import { Match, EventStat } from '@/types/football';
+import { Match, EventStat, DataProvenance } from '@/types/football';
 import { Skeleton } from '@/components/ui/skeleton';
+import DataSourceBadge from '@/components/DataSourceBadge';
 import StatsView from './StatsView';
 
 const api = new FootballAPI();
@@ -11,13 +14,15 @@ const api = new FootballAPI();
 const MatchDetails = ({ match }: { match: Match }) => {
   const { data: details, isLoading, isError } = useQuery<{
     stats: EventStat[];
+    provenance?: DataProvenance;
   }>({
     queryKey: ['matchDetails', match.id],
-    queryFn: async () => {
-      const statsData = await api.fetchEventStats(match.id);
+    queryFn: async ({ signal }) => {
+      const statsData = await api.fetchEventStats(match.id, signal);
 
       return {
         stats: statsData.eventstats || [],
+        provenance: statsData.provenance,
       };
     },
     enabled: !!match.id,
@@ -39,10 +44,17 @@ const MatchDetails = ({ match }: { match: Match }) => {
 
   return (
     <div className="bg-white p-4 rounded-b-lg border-t">
-      <div className="mb-4">
+      <div className="mb-4 flex items-center justify-center space-x-2">
         <h4 className="font-bold text-lg text-center">Match Statistics</h4>
+        <DataSourceBadge provenance={details.provenance} />
       </div>
       <StatsView stats={details.stats} />
+      <div className="mt-2 text-center">
+        <Link to={`/match/${match.id}`} className="inline-flex items-center text-sm font-medium text-green-700 hover:text-green-900">
+          Lineups, timeline and match info
+          <ArrowRight className="h-4 w-4 ml-1" />
+        </Link>
+      </div>
     </div>
   );
 };
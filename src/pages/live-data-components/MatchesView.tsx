@@ -1,6 +1,8 @@
 import React, { useState, useMemo } from 'react';
 import { Clock, Calendar } from 'lucide-react';
-import { Match } from '@/types/football';
+import { DataProvenance, Match } from '@/types/football';
+import { MatchPrediction } from '@/utils/predictionModel';
+import DataSourceBadge from '@/components/DataSourceBadge';
 import MatchCard from './MatchCard';
 import MatchDetails from './MatchDetails';
 import { AnimatePresence, motion } from 'framer-motion';
@@ -8,19 +10,22 @@ import { AnimatePresence, motion } from 'framer-motion';
 interface MatchesViewProps {
   matches: Match[];
   message?: string;
-  type: 'live' | 'recent';
+  type: 'live' | 'recent' | 'upcoming';
+  provenance?: DataProvenance;
+  /** Predictions for scheduled matches, keyed by match id */
+  predictions?: Record<string, MatchPrediction>;
 }
 
-const MatchesView: React.FC<MatchesViewProps> = ({ matches, message, type }) => {
+const MatchesView: React.FC<MatchesViewProps> = ({ matches, message, type, provenance, predictions = {} }) => {
   const [expandedMatchId, setExpandedMatchId] = useState<string | null>(null);
 
   const handleMatchClick = (matchId: string) => {
     setExpandedMatchId(expandedMatchId === matchId ? null : matchId);
   };
 
-  // Group matches by matchday for recent results
+  // Group matches by matchday for recent results and upcoming fixtures
   const groupedMatches = useMemo(() => {
-    if (type !== 'recent') {
+    if (type === 'live') {
       return { ungrouped: matches };
     }
 
@@ -35,19 +40,27 @@ const MatchesView: React.FC<MatchesViewProps> = ({ matches, message, type }) =>
       groups[key].push(match);
     });
 
-    // Sort matches within each group by date (most recent first)
+    // Sort matches within each group by date: most recent first, or soonest first for fixtures
+    const direction = type === 'upcoming' ? -1 : 1;
     Object.keys(groups).forEach(key => {
-      groups[key].sort((a, b) => new Date(b.utcDate).getTime() - new Date(a.utcDate).getTime());
+      groups[key].sort((a, b) => direction * (new Date(b.utcDate).getTime() - new Date(a.utcDate).getTime()));
     });
 
     return groups;
   }, [matches, type]);
 
+  const sourceBadge = provenance && (
+    <div className="flex justify-end mb-2">
+      <DataSourceBadge provenance={provenance} />
+    </div>
+  );
+
   if (message) {
     return (
       <div className="text-center py-12">
         <Clock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
         <p className="text-gray-500 text-lg">{message}</p>
+        <DataSourceBadge provenance={provenance} className="mt-4" />
       </div>
     );
   }
@@ -59,6 +72,7 @@ const MatchesView: React.FC<MatchesViewProps> = ({ matches, message, type }) =>
         <p className="text-gray-500 text-lg">
           No matches found for the selected criteria.
         </p>
+        <DataSourceBadge provenance={provenance} className="mt-4" />
       </div>
     );
   }
@@ -67,6 +81,7 @@ const MatchesView: React.FC<MatchesViewProps> = ({ matches, message, type }) =>
   if (groupedMatches.ungrouped) {
     return (
       <div className="space-y-2">
+        {sourceBadge}
         {groupedMatches.ungrouped.map((match) => (
           <div key={match.id}>
             <MatchCard 
@@ -97,11 +112,13 @@ const MatchesView: React.FC<MatchesViewProps> = ({ matches, message, type }) =>
   const sortedGroupKeys = Object.keys(groupedMatches).sort((a, b) => {
     const matchdayA = parseInt(a.replace('Matchday ', '')) || 0;
     const matchdayB = parseInt(b.replace('Matchday ', '')) || 0;
-    return matchdayB - matchdayA; // Most recent matchday first
+    // Most recent matchday first, or the next one first for fixtures
+    return type === 'upcoming' ? matchdayA - matchdayB : matchdayB - matchdayA;
   });
 
   return (
     <div className="space-y-6">
+      {sourceBadge}
       {sortedGroupKeys.map((groupKey) => (
         <div key={groupKey} className="space-y-3">
           {/* Matchday Header */}
@@ -121,6 +138,7 @@ const MatchesView: React.FC<MatchesViewProps> = ({ matches, message, type }) =>
                   match={match} 
                   onClick={() => handleMatchClick(match.id)}
                   isExpanded={expandedMatchId === match.id}
+                  prediction={predictions[match.id]}
                 />
                 <AnimatePresence>
                   {expandedMatchId === match.id && (
@@ -0,0 +1,51 @@
+import React, { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Gauge, Hourglass } from 'lucide-react';
+import { requestScheduler, RateLimitState } from '@/utils/requestScheduler';
+
+const RateLimitIndicator = () => {
+  const [state, setState] = useState<RateLimitState>(requestScheduler.getState());
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => requestScheduler.subscribe(setState), []);
+
+  // Tick once a second while a back-off window is running to drive the countdown
+  useEffect(() => {
+    if (!state.limitedUntil) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [state.limitedUntil]);
+
+  const secondsLeft = state.limitedUntil ? Math.ceil((state.limitedUntil - now) / 1000) : 0;
+
+  if (secondsLeft > 0) {
+    return (
+      <Badge variant="outline" className="bg-yellow-100 text-yellow-800 border-yellow-300 self-center whitespace-nowrap">
+        <Hourglass className="h-3 w-3 mr-1" />
+        Rate limited · retrying in {secondsLeft}s
+      </Badge>
+    );
+  }
+
+  if (state.retrying > 0 || state.queued > 0) {
+    return (
+      <Badge variant="outline" className="bg-blue-100 text-blue-800 border-blue-300 self-center whitespace-nowrap">
+        <Hourglass className="h-3 w-3 mr-1" />
+        {state.retrying > 0 ? `Retrying ${state.retrying}` : `${state.queued} queued`}
+      </Badge>
+    );
+  }
+
+  if (state.remaining !== null) {
+    return (
+      <Badge variant="outline" className="self-center whitespace-nowrap" title="Requests left in the provider's current rate-limit window">
+        <Gauge className="h-3 w-3 mr-1" />
+        {state.remaining} requests left
+      </Badge>
+    );
+  }
+
+  return null;
+};
+
+export default RateLimitIndicator;
@@ -1,42 +1,52 @@
 
 import React from 'react';
-import { Trophy, Users } from 'lucide-react';
-import { Standing } from '@/types/football';
+import { ChevronDown, ChevronUp, Trophy, Users } from 'lucide-react';
+import { DataProvenance, Standing } from '@/types/football';
+import DataSourceBadge from '@/components/DataSourceBadge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { describeRankReason } from '@/utils/tiebreakRules';
+import { getZoneForPosition, StandingsZone, ZONE_STYLES } from '@/utils/standingsZones';
 
 interface StandingsTableProps {
   standings: Standing[];
   competitionName: string;
   seasonName: string;
+  provenance?: DataProvenance;
+  /** Qualification and relegation places for this competition and season */
+  zones?: StandingsZone[];
+  /** Line under the title, describing which matches the table covers */
+  subtitle?: string;
 }
 
-const getPositionColor = (position: number, isGroupStage: boolean = false) => {
-  if (isGroupStage) {
-    if (position <= 2) return 'text-green-600 font-bold bg-green-50'; // Qualification
-    if (position <= 4) return 'text-blue-600 font-bold bg-blue-50'; // Europa League
-    return 'text-gray-600 bg-gray-50'; // Elimination
-  }
-  
-  if (position <= 4) return 'text-green-600 font-bold bg-green-50'; // Champions League
-  if (position <= 6) return 'text-blue-600 font-bold bg-blue-50'; // Europa League
-  if (position >= 18) return 'text-red-600 font-bold bg-red-50'; // Relegation
-  return '';
+const formatPositions = (zone: StandingsZone) =>
+  zone.from === zone.to ? `${zone.from}` : `${zone.from}–${zone.to}`;
+
+const PositionChange: React.FC<{ change?: number }> = ({ change }) => {
+  if (!change) return null;
+  const places = `${Math.abs(change)} place${Math.abs(change) !== 1 ? 's' : ''}`;
+  return change > 0
+    ? <ChevronUp className="inline h-4 w-4 text-green-600" aria-label={`Up ${places}`} />
+    : <ChevronDown className="inline h-4 w-4 text-red-600" aria-label={`Down ${places}`} />;
 };
 
-const StandingsTable: React.FC<StandingsTableProps> = ({ standings, competitionName, seasonName }) => {
+const PointsChange: React.FC<{ change?: number }> = ({ change }) =>
+  change ? <span className="ml-1 text-xs font-semibold text-green-600">+{change}</span> : null;
+
+const StandingsTable: React.FC<StandingsTableProps> = ({ standings, competitionName, seasonName, provenance, zones = [], subtitle }) => {
   if (standings.length === 0) {
     return (
       <div className="text-center py-12">
         <Trophy className="h-12 w-12 text-gray-400 mx-auto mb-4" />
         <p className="text-gray-500 text-lg">No standings data available for this season.</p>
         <p className="text-gray-400 text-sm mt-2">This might be due to limited API data for {seasonName}</p>
+        <DataSourceBadge provenance={provenance} className="mt-4" />
       </div>
     );
   }
 
   // Safe check for competitionName - default to empty string if undefined
   const safeCompetitionName = competitionName || '';
-  const isGroupStage = false; // Since we removed CL and EL, always false
-  const tableTitle = 'League Table';
+  const hasDeductions = standings.some(team => team.deductedPoints);
 
   return (
     <div className="space-y-4">
@@ -46,9 +56,10 @@ const StandingsTable: React.FC<StandingsTableProps> = ({ standings, competitionN
           <h3 className="text-lg font-semibold text-gray-900">
             {safeCompetitionName} - {seasonName}
           </h3>
+          <DataSourceBadge provenance={provenance} />
         </div>
         <p className="text-sm text-gray-600 mt-1">
-          Complete league table with {standings.length} teams
+          {subtitle ?? `Complete league table with ${standings.length} teams`}
         </p>
       </div>
 
@@ -72,7 +83,19 @@ const StandingsTable: React.FC<StandingsTableProps> = ({ standings, competitionN
           <tbody>
             {standings.map((team) => (
               <tr key={team.position} className="border-b hover:bg-gray-50 transition-colors">
-                <td className={`p-3 font-medium ${getPositionColor(team.position, isGroupStage)}`}>{team.position}</td>
+                <td className={`p-3 font-medium ${ZONE_STYLES[getZoneForPosition(zones, team.position)?.color]?.cell ?? ''}`}>
+                  {team.rankReason ? (
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <span className="cursor-help underline decoration-dotted underline-offset-2">{team.position}</span>
+                      </TooltipTrigger>
+                      <TooltipContent className="max-w-xs">
+                        <p className="text-xs">{describeRankReason(team.rankReason)}</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  ) : team.position}
+                  <PositionChange change={team.positionChange} />
+                </td>
                 <td className="p-3">
                   <div className="flex items-center space-x-3">
                     {team.team.crest && (
@@ -97,7 +120,22 @@ const StandingsTable: React.FC<StandingsTableProps> = ({ standings, competitionN
                 <td className={`text-center p-3 font-medium ${team.goalDifference >= 0 ? 'text-green-700' : 'text-red-700'}`}>
                   {team.goalDifference > 0 ? `+${team.goalDifference}` : team.goalDifference}
                 </td>
-                <td className="text-center p-3 font-bold text-gray-900">{team.points}</td>
+                <td className="text-center p-3 font-bold text-gray-900">
+                  {team.deductedPoints ? (
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <span className="cursor-help">
+                          {team.points}
+                          <sup className="ml-0.5 text-xs font-semibold text-red-600">−{team.deductedPoints}</sup>
+                        </span>
+                      </TooltipTrigger>
+                      <TooltipContent className="max-w-xs">
+                        <p className="text-xs">{team.deductedPoints} point{team.deductedPoints !== 1 ? 's' : ''} deducted: {team.deductionReason}</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  ) : team.points}
+                  <PointsChange change={team.pointsChange} />
+                </td>
                 <td className="text-center p-3">
                   <div className="flex justify-center items-center space-x-0.5">
                     {(team.form || '-----').split('').map((result, i) => (
@@ -118,14 +156,26 @@ const StandingsTable: React.FC<StandingsTableProps> = ({ standings, competitionN
         </table>
       </div>
 
-      <div className="bg-gray-50 p-4 rounded-lg">
-        <h4 className="font-semibold text-gray-900 mb-2">Legend</h4>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
-          <div className="flex items-center space-x-2"><div className="w-4 h-4 bg-green-100 border border-green-300 rounded"></div><span>Champions League</span></div>
-          <div className="flex items-center space-x-2"><div className="w-4 h-4 bg-blue-100 border border-blue-300 rounded"></div><span>Europa League</span></div>
-          <div className="flex items-center space-x-2"><div className="w-4 h-4 bg-red-100 border border-red-300 rounded"></div><span>Relegation</span></div>
+      {(zones.length > 0 || hasDeductions) && (
+        <div className="bg-gray-50 p-4 rounded-lg">
+          <h4 className="font-semibold text-gray-900 mb-2">Legend</h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
+            {zones.map((zone) => (
+              <div key={`${zone.label}-${zone.from}`} className="flex items-center space-x-2">
+                <div className={`w-4 h-4 border rounded ${ZONE_STYLES[zone.color].swatch} ${zone.playoff ? 'border-dashed' : ''}`}></div>
+                <span>{zone.label}</span>
+                <span className="text-gray-500">({formatPositions(zone)}{zone.playoff ? ', playoff' : ''})</span>
+              </div>
+            ))}
+            {hasDeductions && (
+              <div className="flex items-center space-x-2">
+                <span className="w-4 text-center text-xs font-semibold text-red-600">−n</span>
+                <span>Points deducted</span>
+              </div>
+            )}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,33 @@
+import React from 'react';
+import { useIsFetching } from '@tanstack/react-query';
+import { RefreshCw } from 'lucide-react';
+import { TabContext, TabDefinition } from '@/utils/tabRegistry';
+
+interface TabButtonProps {
+  tab: TabDefinition;
+  context: TabContext | null;
+  isActive: boolean;
+  onClick: () => void;
+}
+
+const TabButton: React.FC<TabButtonProps> = ({ tab, context, isActive, onClick }) => {
+  // Loading state is tracked per tab through its own query key
+  const fetching = useIsFetching({ queryKey: context ? tab.queryKey(context) : [tab.id], exact: true }) > 0;
+
+  return (
+    <button
+      onClick={onClick}
+      className={`flex items-center space-x-2 py-2 px-1 border-b-2 font-medium text-sm transition-colors whitespace-nowrap ${
+        isActive
+          ? 'border-green-500 text-green-600'
+          : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+      }`}
+    >
+      <tab.icon className="h-4 w-4" />
+      <span>{tab.label}</span>
+      {fetching && <RefreshCw className="h-3 w-3 animate-spin text-gray-400" />}
+    </button>
+  );
+};
+
+export default TabButton;
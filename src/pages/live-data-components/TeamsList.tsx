@@ -1,32 +1,45 @@
 
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Users } from 'lucide-react';
-import { Team } from '@/types/football';
+import { DataProvenance, Team } from '@/types/football';
+import DataSourceBadge from '@/components/DataSourceBadge';
+import PlayerSearch from '@/components/PlayerSearch';
 
 interface TeamsListProps {
   teams: Team[];
+  /** Competition code and season carried over to the team pages */
+  competition: string;
   competitionName: string;
   seasonName: string;
+  provenance?: DataProvenance;
 }
 
-const TeamsList: React.FC<TeamsListProps> = ({ teams, competitionName, seasonName }) => {
+const TeamsList: React.FC<TeamsListProps> = ({ teams, competition, competitionName, seasonName, provenance }) => {
   if (teams.length === 0) {
     return (
       <div className="text-center py-12">
         <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
         <p className="text-gray-500 text-lg">No team data available.</p>
+        <DataSourceBadge provenance={provenance} className="mt-4" />
       </div>
     );
   }
 
   return (
     <div className="space-y-4">
-      <div className="bg-gradient-to-r from-green-50 to-blue-50 p-4 rounded-lg">
-        <h3 className="text-lg font-semibold text-gray-900">
-          {competitionName} Teams - {seasonName}
-        </h3>
-        <p className="text-sm text-gray-600 mt-1">{teams.length} teams in the competition.</p>
+      <div className="bg-gradient-to-r from-green-50 to-blue-50 p-4 rounded-lg flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <div className="flex items-center space-x-2">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {competitionName} Teams - {seasonName}
+            </h3>
+            <DataSourceBadge provenance={provenance} />
+          </div>
+          <p className="text-sm text-gray-600 mt-1">{teams.length} teams in the competition. Select a team for its squad, fixtures and season trends.</p>
+        </div>
+        <PlayerSearch />
       </div>
 
       <div className="bg-white rounded-lg shadow overflow-hidden">
@@ -56,7 +69,12 @@ const TeamsList: React.FC<TeamsListProps> = ({ teams, competitionName, seasonNam
                   )}
                 </TableCell>
                 <TableCell>
-                  <div className="font-semibold text-gray-900">{team.name}</div>
+                  <Link
+                    to={`/team/${team.id}?${new URLSearchParams({ competition, season: seasonName })}`}
+                    className="font-semibold text-gray-900 hover:text-blue-700 hover:underline"
+                  >
+                    {team.name}
+                  </Link>
                   <div className="text-sm text-gray-500">{team.tla}</div>
                 </TableCell>
                 <TableCell>
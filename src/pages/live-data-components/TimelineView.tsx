@@ -1,30 +1,64 @@
-
 import React from 'react';
 import { TimelineEvent } from '@/types/football';
-import { Clock } from 'lucide-react';
+import { ArrowLeftRight, Goal, RectangleVertical } from 'lucide-react';
+
+const EventIcon = ({ event }: { event: TimelineEvent }) => {
+  const type = event.strTimeline.toLowerCase();
+  if (type.includes('goal')) return <Goal className="h-4 w-4 text-green-600" />;
+  if (type.includes('card')) {
+    const red = event.strTimelineDetail.toLowerCase().includes('red');
+    return <RectangleVertical className={`h-4 w-4 ${red ? 'text-red-600 fill-red-600' : 'text-yellow-500 fill-yellow-400'}`} />;
+  }
+  if (type.includes('subst')) return <ArrowLeftRight className="h-4 w-4 text-blue-600" />;
+  return <div className="h-2 w-2 rounded-full bg-gray-400" />;
+};
+
+const describe = (event: TimelineEvent): string => {
+  if (event.strTimeline.toLowerCase().includes('subst') && event.strPlayer) {
+    return event.strAssist ? `${event.strPlayer} on, ${event.strAssist} off` : `${event.strPlayer} on`;
+  }
+  if (event.strPlayer) {
+    return event.strAssist && event.strTimeline.toLowerCase().includes('goal')
+      ? `${event.strPlayer} (assist ${event.strAssist})`
+      : event.strPlayer;
+  }
+  return event.strTimelineDescription;
+};
 
 const TimelineView = ({ timeline, homeTeamName, awayTeamName }: { timeline: TimelineEvent[], homeTeamName: string, awayTeamName: string }) => {
   if (timeline.length === 0) {
     return <p className="text-gray-500 text-center py-4">No timeline events available for this match.</p>;
   }
 
+  // Home events sit left of the minute column, away events right of it
   return (
-    <div className="space-y-4 py-4">
-      {timeline.map(event => (
-        <div key={event.idTimeline} className="flex items-center space-x-4">
-          <div className="w-16 text-right font-mono text-gray-600">{event.strTimeline}'</div>
-          <div className="relative w-full">
-            <div className="border-l-2 border-gray-200 absolute h-full left-2.5"></div>
-            <div className="flex items-center space-x-4">
-              <div className="bg-white border-2 border-gray-200 rounded-full h-5 w-5 z-10"></div>
-              <div className="flex-1 text-sm">
-                <p className="font-semibold">{event.strTimelineDetail}</p>
-                <p className="text-gray-500">{event.strTimelineDescription}</p>
+    <div className="py-4">
+      <div className="grid grid-cols-[1fr_4rem_1fr] text-sm font-semibold text-gray-600 mb-2">
+        <span className="text-right">{homeTeamName}</span>
+        <span />
+        <span>{awayTeamName}</span>
+      </div>
+      <div className="space-y-2">
+        {timeline.map(event => {
+          const away = event.strTeam === awayTeamName;
+          const content = (
+            <div className={`flex items-center gap-2 text-sm ${away ? '' : 'flex-row-reverse text-right'}`}>
+              <EventIcon event={event} />
+              <div>
+                <p className="font-semibold">{describe(event)}</p>
+                <p className="text-xs text-gray-500">{event.strTimelineDetail}</p>
               </div>
             </div>
-          </div>
-        </div>
-      ))}
+          );
+          return (
+            <div key={event.idTimeline} className="grid grid-cols-[1fr_4rem_1fr] items-center">
+              <div>{!away && content}</div>
+              <div className="text-center font-mono text-gray-600">{event.intTime ? `${event.intTime}'` : ''}</div>
+              <div>{away && content}</div>
+            </div>
+          );
+        })}
+      </div>
     </div>
   );
 };
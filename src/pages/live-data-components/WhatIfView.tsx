@@ -0,0 +1,228 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useLocation, useSearchParams } from 'react-router-dom';
+import { Link2, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { Match, StandingsResponse } from '@/types/football';
+import { getStandingsZones } from '@/utils/standingsZones';
+import {
+  applyScenario,
+  decodeScenario,
+  encodeScenario,
+  SCENARIO_URL_PARAM,
+  ScenarioScores,
+  scenarioStore
+} from '@/utils/whatIfScenarios';
+import StandingsTable from './StandingsTable';
+
+interface WhatIfViewProps {
+  data: StandingsResponse;
+  /** The season's matches; finished ones feed head-to-head tiebreakers */
+  matches: Match[];
+  /** Scheduled fixtures offered for editing, after the matchday filter */
+  fixtures: Match[];
+  competition: string;
+  competitionName: string;
+  seasonName: string;
+}
+
+const DEFAULT_NAME = 'My scenario';
+
+const parseGoals = (value: string): number | null => {
+  const goals = parseInt(value, 10);
+  return Number.isInteger(goals) && goals >= 0 ? Math.min(goals, 20) : null;
+};
+
+const WhatIfView: React.FC<WhatIfViewProps> = ({ data, matches, fixtures, competition, competitionName, seasonName }) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { pathname } = useLocation();
+  const [, setVersion] = useState(0);
+
+  // A shared link for this competition and season seeds the editor
+  const [initial] = useState(() => {
+    const shared = decodeScenario(searchParams.get(SCENARIO_URL_PARAM) ?? '');
+    return shared && shared.competition === competition && shared.season === seasonName ? shared : null;
+  });
+  const [name, setName] = useState(initial?.name || DEFAULT_NAME);
+  const [scores, setScores] = useState<ScenarioScores>(initial?.scores ?? {});
+
+  useEffect(() => scenarioStore.subscribe(() => setVersion(version => version + 1)), []);
+
+  // Keep the address bar in sync, so the current scenario can be shared at any time
+  const encoded = Object.keys(scores).length > 0 ? encodeScenario({ name, competition, season: seasonName, scores }) : null;
+  useEffect(() => {
+    setSearchParams(params => {
+      const next = new URLSearchParams(params);
+      if (encoded) {
+        next.set(SCENARIO_URL_PARAM, encoded);
+      } else {
+        next.delete(SCENARIO_URL_PARAM);
+      }
+      return next;
+    }, { replace: true });
+
+    // Leaving the tab drops the scenario from the address; leaving the page has already replaced it
+    return () => {
+      if (window.location.pathname !== pathname) return;
+      setSearchParams(params => {
+        const next = new URLSearchParams(params);
+        next.delete(SCENARIO_URL_PARAM);
+        return next;
+      }, { replace: true });
+    };
+  }, [encoded, pathname, setSearchParams]);
+
+  const table = useMemo(
+    () => applyScenario(data.standings[0]?.table ?? [], matches, scores, competition),
+    [data, matches, scores, competition]
+  );
+  const savedScenarios = scenarioStore.list(competition, seasonName);
+  const scheduled = matches.filter(match => match.status === 'SCHEDULED');
+  const editedCount = scheduled.filter(match => scores[match.id]).length;
+
+  const setGoals = (match: Match, side: 'home' | 'away', value: string) => {
+    const goals = parseGoals(value);
+    setScores(previous => {
+      const next = { ...previous };
+      if (goals === null) {
+        delete next[match.id];
+      } else {
+        next[match.id] = { home: 0, away: 0, ...previous[match.id], [side]: goals };
+      }
+      return next;
+    });
+  };
+
+  const saveScenario = () => {
+    const saved = scenarioStore.saveScenario({ name: name.trim() || DEFAULT_NAME, competition, season: seasonName, scores });
+    setName(saved.name);
+    toast({ title: 'Scenario saved', description: `"${saved.name}" can be reopened from the saved scenarios list.` });
+  };
+
+  const loadScenario = (id: string) => {
+    const scenario = savedScenarios.find(entry => entry.id === id);
+    if (scenario) {
+      setName(scenario.name);
+      setScores(scenario.scores);
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: 'Link copied', description: 'Anyone opening it sees this scenario.' });
+    } catch (error) {
+      console.warn('Could not copy the scenario link:', error);
+      toast({ title: 'Copy failed', description: 'Copy the address from the browser bar instead.' });
+    }
+  };
+
+  if (scheduled.length === 0) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        No remaining fixtures this season, so there is nothing to play out.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <Input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="Scenario name"
+          className="w-56 h-9"
+          aria-label="Scenario name"
+        />
+        <Button variant="outline" size="sm" onClick={saveScenario} disabled={editedCount === 0}>
+          <Save className="h-4 w-4 mr-1" />
+          Save
+        </Button>
+        <Button variant="outline" size="sm" onClick={copyLink} disabled={editedCount === 0}>
+          <Link2 className="h-4 w-4 mr-1" />
+          Copy link
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => setScores({})} disabled={Object.keys(scores).length === 0}>
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Clear scores
+        </Button>
+        {savedScenarios.length > 0 && (
+          <div className="flex items-center gap-1">
+            <Select value="" onValueChange={loadScenario}>
+              <SelectTrigger className="w-52 h-9">
+                <SelectValue placeholder={`Saved scenarios (${savedScenarios.length})`} />
+              </SelectTrigger>
+              <SelectContent>
+                {savedScenarios.map((scenario) => (
+                  <SelectItem key={scenario.id} value={scenario.id}>{scenario.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {savedScenarios.some(scenario => scenario.name === name) && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => scenarioStore.remove(savedScenarios.find(scenario => scenario.name === name).id)}
+                aria-label={`Delete saved scenario ${name}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-5 gap-6">
+        <div className="xl:col-span-2 space-y-2">
+          <p className="text-sm text-gray-600">
+            {editedCount} of {scheduled.length} remaining fixture{scheduled.length !== 1 ? 's' : ''} given a score
+          </p>
+          <div className="divide-y rounded-lg border bg-white max-h-[720px] overflow-y-auto">
+            {fixtures.map((match) => (
+              <div key={match.id} className={`flex items-center gap-2 p-2 text-sm ${scores[match.id] ? 'bg-blue-50' : ''}`}>
+                <span className="w-10 text-xs text-gray-400">{match.matchday ? `MD${match.matchday}` : ''}</span>
+                <span className="flex-1 text-right truncate">{match.homeTeam.name}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  value={scores[match.id]?.home ?? ''}
+                  onChange={(event) => setGoals(match, 'home', event.target.value)}
+                  className="w-12 h-8 px-1 text-center"
+                  aria-label={`${match.homeTeam.name} goals`}
+                />
+                <span className="text-gray-400">-</span>
+                <Input
+                  type="number"
+                  min={0}
+                  value={scores[match.id]?.away ?? ''}
+                  onChange={(event) => setGoals(match, 'away', event.target.value)}
+                  className="w-12 h-8 px-1 text-center"
+                  aria-label={`${match.awayTeam.name} goals`}
+                />
+                <span className="flex-1 truncate">{match.awayTeam.name}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="xl:col-span-3 min-w-0">
+          <StandingsTable
+            standings={table}
+            competitionName={competitionName}
+            seasonName={seasonName}
+            provenance={data.provenance}
+            subtitle={editedCount > 0
+              ? `Table after ${editedCount} hypothetical result${editedCount !== 1 ? 's' : ''}; arrows and green points compare with the actual table`
+              : 'Enter scores for the remaining fixtures to see how the table would change'}
+            zones={getStandingsZones(competition, seasonName, table.length)}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WhatIfView;
@@ -0,0 +1,186 @@
+import React from 'react';
+import { Clock, Users, Calendar, CalendarClock, Medal, Sparkles, Trophy } from 'lucide-react';
+import TabRegistry, { TabContext } from '@/utils/tabRegistry';
+import type FootballAPI from '@/utils/footballApi';
+import { applyTiebreakRules } from '@/utils/tiebreakRules';
+import { annotatePointsDeductions } from '@/utils/pointsDeductions';
+import { MatchPrediction, predictFixtures } from '@/utils/predictionModel';
+import { isAbortError } from '@/utils/requestScheduler';
+import { loadSeasonResults } from '@/utils/seasonResults';
+import { Match, MatchesResponse, StandingsResponse, TeamsResponse, TopScorer } from '@/types/football';
+import MatchesView from './MatchesView';
+import LeagueTablesView from './LeagueTablesView';
+import WhatIfView from './WhatIfView';
+import TeamsList from './TeamsList';
+import LeaderboardsView from './LeaderboardsView';
+
+const filterByMatchday = (matches: Match[], context: TabContext): Match[] => {
+  if (context.matchday === 'all') return matches;
+  return matches.filter(match => match.matchday?.toString() === context.matchday);
+};
+
+const isLive = (match: Match) => match.status === 'IN_PLAY' || match.status === 'LIVE';
+
+// Standings plus the season's results, which the home, away and form tables are built from
+type LeagueTablesData = StandingsResponse & { matches: Match[] };
+
+const loadLeagueTables = async (api: FootballAPI, { competition, season }: TabContext, signal: AbortSignal): Promise<LeagueTablesData> => {
+  // Head-to-head tiebreakers and the split tables need the season's results;
+  // without them the provider's order is kept and only the overall view is offered
+  const { standings: data, matches } = await loadSeasonResults(api, competition, season, signal);
+  const ranked = applyTiebreakRules(annotatePointsDeductions(data, competition, season), competition, matches);
+  return { ...ranked, matches };
+};
+
+// The season's matches, whose lineups and timelines the leaderboards count, plus the provider's scorers
+type LeaderboardsData = MatchesResponse & { scorers: TopScorer[] };
+
+const loadLeaderboards = async (api: FootballAPI, { competition, season }: TabContext, signal: AbortSignal): Promise<LeaderboardsData> => {
+  // The scorers list is optional: without it goals are counted from timelines too
+  const [data, scorers] = await Promise.all([
+    api.fetchCompetitionMatches(competition, season, signal),
+    api.fetchTopScorers(competition, season, signal).catch(error => {
+      if (isAbortError(error)) throw error;
+      return null;
+    })
+  ]);
+  // Demo scorers are never mixed into counts from real matches
+  const usable = scorers && (scorers.provenance?.source !== 'mock' || data.provenance?.source === 'mock');
+  return { ...data, scorers: usable ? scorers.scorers : [] };
+};
+
+// Scheduled fixtures with predictions fitted to the season's finished matches
+type FixturesData = MatchesResponse & { predictions: Record<string, MatchPrediction> };
+
+// Tabs of the Data page, in display order
+const liveDataTabs = new TabRegistry()
+  .register<LeagueTablesData>({
+    id: 'league-tables',
+    label: 'League Tables',
+    icon: Trophy,
+    queryKey: ({ competition, season }) => ['league-tables', competition, season],
+    load: loadLeagueTables,
+    render: (data, { competition, competitionName, season }) => (
+      <LeagueTablesView
+        data={data}
+        matches={data.matches}
+        competition={competition}
+        competitionName={competitionName}
+        seasonName={season}
+      />
+    )
+  })
+  .register<MatchesResponse>({
+    id: 'recent-results',
+    label: 'Recent Results',
+    icon: Calendar,
+    queryKey: ({ competition, season }) => ['recent-results', competition, season],
+    load: async (api, { competition, season }, signal) => {
+      const data = await api.fetchCompetitionMatches(competition, season, signal);
+      return { ...data, matches: data.matches.filter(match => match.status === 'FINISHED') };
+    },
+    render: (data, context) => (
+      <MatchesView matches={filterByMatchday(data.matches, context)} type="recent" provenance={data.provenance} />
+    ),
+    getMatches: data => data.matches
+  })
+  .register<FixturesData>({
+    id: 'upcoming-fixtures',
+    label: 'Fixtures',
+    icon: CalendarClock,
+    queryKey: ({ competition, season }) => ['upcoming-fixtures', competition, season],
+    load: async (api, { competition, season }, signal) => {
+      const data = await api.fetchCompetitionMatches(competition, season, signal);
+      const matches = data.matches.filter(match => match.status === 'SCHEDULED');
+      return { ...data, matches, count: matches.length, predictions: predictFixtures(data.matches) };
+    },
+    render: (data, context) => {
+      const matches = filterByMatchday(data.matches, context);
+      return (
+        <MatchesView
+          matches={matches}
+          type="upcoming"
+          message={data.matches.length === 0 ? 'No scheduled fixtures left this season.' : undefined}
+          provenance={data.provenance}
+          predictions={data.predictions}
+        />
+      );
+    },
+    getMatches: data => data.matches
+  })
+  .register<LeagueTablesData>({
+    id: 'what-if',
+    label: 'What If',
+    icon: Sparkles,
+    // Same data as the league tables, so the two tabs share one cache entry
+    queryKey: ({ competition, season }) => ['league-tables', competition, season],
+    load: loadLeagueTables,
+    render: (data, context) => (
+      <WhatIfView
+        key={`${context.competition}-${context.season}`}
+        data={data}
+        matches={data.matches}
+        fixtures={filterByMatchday(data.matches.filter(match => match.status === 'SCHEDULED'), context)
+          .sort((a, b) => a.utcDate.localeCompare(b.utcDate))}
+        competition={context.competition}
+        competitionName={context.competitionName}
+        seasonName={context.season}
+      />
+    ),
+    getMatches: data => data.matches.filter(match => match.status === 'SCHEDULED')
+  })
+  .register<LeaderboardsData>({
+    id: 'leaderboards',
+    label: 'Leaderboards',
+    icon: Medal,
+    queryKey: ({ competition, season }) => ['leaderboards', competition, season],
+    load: loadLeaderboards,
+    render: (data, context) => (
+      <LeaderboardsView
+        key={`${context.competition}-${context.season}`}
+        matches={data.matches}
+        scorers={data.scorers}
+        competitionName={context.competitionName}
+        seasonName={context.season}
+        provenance={data.provenance}
+        countDetails={data.provenance?.source !== 'mock'}
+      />
+    )
+  })
+  .register<MatchesResponse>({
+    id: 'live-matches',
+    label: 'Live Matches',
+    icon: Clock,
+    queryKey: ({ competition, season }) => ['live-matches', competition, season],
+    load: (api, { competition, season }, signal) => api.fetchMatches(competition, season, signal),
+    render: (data, context) => {
+      const matches = filterByMatchday(data.matches, context).filter(isLive);
+      return (
+        <MatchesView
+          matches={matches}
+          type="live"
+          message={matches.length === 0 ? 'No live matches right now.' : undefined}
+          provenance={data.provenance}
+        />
+      );
+    },
+    getMatches: data => data.matches.filter(isLive)
+  })
+  .register<TeamsResponse>({
+    id: 'team-stats',
+    label: 'Teams Info',
+    icon: Users,
+    queryKey: ({ competition, season }) => ['team-stats', competition, season],
+    load: (api, { competition, season }, signal) => api.fetchTeams(competition, season, signal),
+    render: (data, { competition, competitionName, season }) => (
+      <TeamsList
+        teams={data.teams || []}
+        competition={competition}
+        competitionName={competitionName}
+        seasonName={season}
+        provenance={data.provenance}
+      />
+    )
+  });
+
+export default liveDataTabs;
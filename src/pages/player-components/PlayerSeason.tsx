@@ -0,0 +1,90 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { PlayerSeasonStats } from '@/utils/playerSeasonStats';
+
+interface PlayerSeasonProps {
+  stats: PlayerSeasonStats;
+  /** Finished matches of the player's club that were looked up */
+  matchCount: number;
+  team: { id: string; name: string };
+}
+
+/**
+ * Season totals and the match-by-match record counted from lineups and timelines
+ */
+const PlayerSeason: React.FC<PlayerSeasonProps> = ({ stats, matchCount, team }) => {
+  if (stats.matchesCounted === 0) {
+    return (
+      <p className="text-center py-8 text-gray-500">
+        {matchCount === 0
+          ? 'The club has no finished matches in this competition season.'
+          : 'The provider has no lineups or timelines for these matches, so nothing could be counted.'}
+      </p>
+    );
+  }
+
+  const totals = [
+    { label: 'Appearances', value: stats.appearances, detail: `${stats.starts} starts, ${stats.substituteAppearances} as substitute` },
+    { label: 'Goals', value: stats.goals, detail: stats.ownGoals > 0 ? `plus ${stats.ownGoals} own goal${stats.ownGoals !== 1 ? 's' : ''}` : null },
+    { label: 'Assists', value: stats.assists, detail: null },
+    { label: 'Cards', value: stats.yellowCards + stats.redCards, detail: `${stats.yellowCards} yellow, ${stats.redCards} red` }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+        {totals.map(({ label, value, detail }) => (
+          <div key={label} className="rounded-lg bg-gray-50 p-3">
+            <p className="text-2xl font-bold text-gray-900">{value}</p>
+            <p className="text-xs text-gray-500">{label}</p>
+            {detail && <p className="text-xs text-gray-400 mt-1">{detail}</p>}
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">
+        Counted from the lineups and timelines of {stats.matchesCounted} of {team.name}'s {matchCount} finished matches.
+      </p>
+
+      {stats.matches.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Match</TableHead>
+              <TableHead className="text-center">Role</TableHead>
+              <TableHead className="text-center">G</TableHead>
+              <TableHead className="text-center">A</TableHead>
+              <TableHead className="text-center">Cards</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {stats.matches.map(({ match, started, goals, assists, yellowCards, redCards }) => {
+              const home = match.homeTeam.id === team.id || match.homeTeam.name === team.name;
+              const opponent = home ? match.awayTeam : match.homeTeam;
+              return (
+                <TableRow key={match.id}>
+                  <TableCell className="text-gray-500 text-sm">{new Date(match.utcDate).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    <Link to={`/match/${match.id}`} className="hover:text-blue-700 hover:underline">
+                      {home ? 'vs' : 'at'} {opponent.name} ({match.score.fullTime.home} - {match.score.fullTime.away})
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-center text-sm text-gray-600">{started ? 'Started' : 'Substitute'}</TableCell>
+                  <TableCell className="text-center">{goals || ''}</TableCell>
+                  <TableCell className="text-center">{assists || ''}</TableCell>
+                  <TableCell className="text-center">
+                    {yellowCards > 0 && <span className="inline-block h-4 w-3 rounded-sm bg-yellow-400 mr-1" title="Yellow card" />}
+                    {redCards > 0 && <span className="inline-block h-4 w-3 rounded-sm bg-red-600" title="Red card" />}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default PlayerSeason;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Match, Team } from '@/types/football';
+import { isCompletedMatch, isSameTeam } from '@/utils/standingsEngine';
+
+interface TeamFixturesProps {
+  team: Team;
+  matches: Match[];
+}
+
+const SHOWN_MATCHES = 5;
+
+const RESULT_STYLES: Record<string, string> = {
+  W: 'bg-green-600 hover:bg-green-600',
+  D: 'bg-gray-500 hover:bg-gray-500',
+  L: 'bg-red-600 hover:bg-red-600'
+};
+
+const getResult = (match: Match, home: boolean): string => {
+  const scored = home ? match.score.fullTime.home : match.score.fullTime.away;
+  const conceded = home ? match.score.fullTime.away : match.score.fullTime.home;
+  return scored > conceded ? 'W' : scored < conceded ? 'L' : 'D';
+};
+
+const FixtureRow: React.FC<{ match: Match; team: Team }> = ({ match, team }) => {
+  const home = isSameTeam(match.homeTeam, team);
+  const opponent = home ? match.awayTeam : match.homeTeam;
+  const played = isCompletedMatch(match);
+  const result = played ? getResult(match, home) : null;
+
+  return (
+    <Link to={`/match/${match.id}`} className="flex items-center gap-3 p-3 text-sm hover:bg-gray-50">
+      <span className="w-20 text-xs text-gray-500">
+        {new Date(match.utcDate).toLocaleDateString([], { day: 'numeric', month: 'short', year: '2-digit' })}
+      </span>
+      <span className="w-6 text-xs font-semibold text-gray-400">{home ? 'H' : 'A'}</span>
+      {opponent.crest && <img src={opponent.crest} alt="" className="w-5 h-5 object-contain" />}
+      <span className="flex-1 truncate">
+        <span className="font-medium">{opponent.name}</span>
+        {match.competition.name && <span className="block text-xs text-gray-400 truncate">{match.competition.name}</span>}
+      </span>
+      {played ? (
+        <>
+          <span className="font-mono">{match.score.fullTime.home} - {match.score.fullTime.away}</span>
+          <Badge className={`w-7 justify-center ${RESULT_STYLES[result]}`}>{result}</Badge>
+        </>
+      ) : (
+        <span className="text-xs text-gray-500">
+          {new Date(match.utcDate).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </span>
+      )}
+    </Link>
+  );
+};
+
+const FixtureList: React.FC<{ title: string; matches: Match[]; team: Team; empty: string }> = ({ title, matches, team, empty }) => (
+  <div>
+    <h4 className="font-semibold text-gray-900 mb-2">{title}</h4>
+    {matches.length === 0 ? (
+      <p className="text-sm text-gray-500 py-4">{empty}</p>
+    ) : (
+      <div className="divide-y rounded-lg border">
+        {matches.map(match => <FixtureRow key={match.id} match={match} team={team} />)}
+      </div>
+    )}
+  </div>
+);
+
+/**
+ * The team's latest results and next fixtures, each linking to its match page
+ */
+const TeamFixtures: React.FC<TeamFixturesProps> = ({ team, matches }) => {
+  const byDate = [...matches].sort((a, b) => a.utcDate.localeCompare(b.utcDate));
+  const last = byDate.filter(isCompletedMatch).reverse().slice(0, SHOWN_MATCHES);
+  const next = byDate.filter(match => match.status === 'SCHEDULED').slice(0, SHOWN_MATCHES);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <FixtureList title="Latest results" matches={last} team={team} empty="No recent results reported." />
+      <FixtureList title="Next fixtures" matches={next} team={team} empty="No upcoming fixtures scheduled." />
+    </div>
+  );
+};
+
+export default TeamFixtures;
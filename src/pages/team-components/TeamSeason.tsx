@@ -0,0 +1,180 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Match, Standing, StandingsResponse, Team } from '@/types/football';
+import { getSplitTable, StandingsSplit } from '@/utils/standingsSplits';
+import { getTeamStandingsHistory } from '@/utils/standingsHistory';
+import { isCompletedMatch, isSameTeam } from '@/utils/standingsEngine';
+import { computeMatchMetrics, formatMargin } from '@/utils/matchMetrics';
+import { eloRatings } from '@/utils/eloRatings';
+
+interface TeamSeasonProps {
+  team: Team;
+  data: StandingsResponse;
+  /** The competition's matches this season; empty when results are unavailable */
+  matches: Match[];
+  competition: string;
+  season: string;
+}
+
+const RECORDS: { split: StandingsSplit; label: string }[] = [
+  { split: 'TOTAL', label: 'Overall' },
+  { split: 'HOME', label: 'Home' },
+  { split: 'AWAY', label: 'Away' }
+];
+
+const ChartTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h4 className="font-semibold text-gray-900 mb-3">{children}</h4>
+);
+
+/**
+ * The team's table rows, records and trend charts for one competition season
+ */
+const TeamSeason: React.FC<TeamSeasonProps> = ({ team, data, matches, competition, season }) => {
+  const [, setVersion] = useState(0);
+  useEffect(() => eloRatings.subscribe(() => setVersion(version => version + 1)), []);
+
+  const tableSize = data.standings[0]?.table.length ?? 0;
+  const records = RECORDS
+    .map(({ split, label }) => ({ label, row: getSplitTable(data, matches, split).find(row => isSameTeam(row.team, team)) }))
+    .filter((record): record is { label: string; row: Standing } => !!record.row);
+
+  const history = useMemo(
+    () => getTeamStandingsHistory(matches, competition, team, season),
+    [matches, competition, team, season]
+  );
+  const teamMatches = matches
+    .filter(match => isCompletedMatch(match) && (isSameTeam(match.homeTeam, team) || isSameTeam(match.awayTeam, team)))
+    .sort((a, b) => a.utcDate.localeCompare(b.utcDate));
+  const goals = teamMatches.map(match => {
+    const home = isSameTeam(match.homeTeam, team);
+    return {
+      opponent: `${(home ? match.awayTeam : match.homeTeam).tla} (${home ? 'H' : 'A'})`,
+      scored: home ? match.score.fullTime.home : match.score.fullTime.away,
+      conceded: home ? match.score.fullTime.away : match.score.fullTime.home
+    };
+  });
+  const metrics = computeMatchMetrics(teamMatches).find(entry => isSameTeam(entry.team, team));
+
+  const rating = eloRatings.getRatings().find(entry => entry.key === team.id || entry.name === team.name);
+  const eloHistory = rating ? eloRatings.getHistory([rating.key]) : [];
+
+  if (records.length === 0) {
+    return <p className="text-center py-8 text-gray-500">{team.name} has no table row in this competition season.</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Record</TableHead>
+              <TableHead className="text-center">Pos</TableHead>
+              <TableHead className="text-center">P</TableHead>
+              <TableHead className="text-center">W</TableHead>
+              <TableHead className="text-center">D</TableHead>
+              <TableHead className="text-center">L</TableHead>
+              <TableHead className="text-center">GF</TableHead>
+              <TableHead className="text-center">GA</TableHead>
+              <TableHead className="text-center">GD</TableHead>
+              <TableHead className="text-center">Pts</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {records.map(({ label, row }) => (
+              <TableRow key={label}>
+                <TableCell className="font-medium">{label}</TableCell>
+                <TableCell className="text-center">{row.position}</TableCell>
+                <TableCell className="text-center">{row.playedGames}</TableCell>
+                <TableCell className="text-center">{row.won}</TableCell>
+                <TableCell className="text-center">{row.draw}</TableCell>
+                <TableCell className="text-center">{row.lost}</TableCell>
+                <TableCell className="text-center">{row.goalsFor}</TableCell>
+                <TableCell className="text-center">{row.goalsAgainst}</TableCell>
+                <TableCell className="text-center">{row.goalDifference > 0 ? `+${row.goalDifference}` : row.goalDifference}</TableCell>
+                <TableCell className="text-center font-bold">{row.points}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <p className="text-xs text-gray-500 mt-2">Home and away positions rank the team within the home or away table.</p>
+      </div>
+
+      {metrics && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+          <div className="rounded-lg bg-gray-50 p-3">
+            <p className="text-2xl font-bold text-green-600">{metrics.cleanSheets}</p>
+            <p className="text-xs text-gray-500">Clean sheets</p>
+          </div>
+          <div className="rounded-lg bg-gray-50 p-3">
+            <p className="text-2xl font-bold text-red-600">{metrics.failedToScore}</p>
+            <p className="text-xs text-gray-500">Failed to score</p>
+          </div>
+          <div className="rounded-lg bg-gray-50 p-3">
+            <p className="text-sm font-semibold">{formatMargin(metrics.biggestWin)}</p>
+            <p className="text-xs text-gray-500">Biggest win</p>
+          </div>
+          <div className="rounded-lg bg-gray-50 p-3">
+            <p className="text-sm font-semibold">{formatMargin(metrics.biggestLoss)}</p>
+            <p className="text-xs text-gray-500">Biggest loss</p>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <ChartTitle>Position and points by matchday</ChartTitle>
+        {history.length === 0 ? (
+          <p className="text-sm text-gray-500 py-8 text-center">No matchday results available for this season.</p>
+        ) : (
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={history}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="matchday" fontSize={12} />
+              <YAxis yAxisId="position" reversed allowDecimals={false} domain={[1, Math.max(tableSize, 1)]} fontSize={12} width={30} />
+              <YAxis yAxisId="points" orientation="right" allowDecimals={false} fontSize={12} width={35} />
+              <Tooltip labelFormatter={(matchday) => `Matchday ${matchday}`} />
+              <Legend verticalAlign="top" />
+              <Line yAxisId="position" type="linear" dataKey="position" name="Position" stroke="#0088FE" strokeWidth={2} dot={false} />
+              <Line yAxisId="points" type="linear" dataKey="points" name="Points" stroke="#00C49F" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      {goals.length > 0 && (
+        <div>
+          <ChartTitle>Goals per match</ChartTitle>
+          <ResponsiveContainer width="100%" height={260}>
+            <BarChart data={goals}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="opponent" fontSize={10} interval={0} angle={-45} textAnchor="end" height={60} />
+              <YAxis allowDecimals={false} fontSize={12} width={30} />
+              <Tooltip />
+              <Legend verticalAlign="top" />
+              <Bar dataKey="scored" name="Scored" fill="#00C49F" />
+              <Bar dataKey="conceded" name="Conceded" fill="#FF8042" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {eloHistory.length > 1 && (
+        <div>
+          <ChartTitle>Elo rating ({Math.round(rating.rating)})</ChartTitle>
+          <ResponsiveContainer width="100%" height={240}>
+            <LineChart data={eloHistory}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" fontSize={12} />
+              <YAxis domain={['auto', 'auto']} fontSize={12} width={40} />
+              <Tooltip />
+              <Line type="linear" dataKey={rating.name} name="Rating" stroke="#8884D8" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TeamSeason;
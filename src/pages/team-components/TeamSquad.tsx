@@ -0,0 +1,72 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Users } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { SquadPlayer } from '@/types/football';
+import { getPositionGroup, PositionGroup } from '@/utils/lineupFormation';
+import { getAge } from '@/utils/playerProfile';
+
+const GROUPS: { id: PositionGroup; label: string }[] = [
+  { id: 'goalkeeper', label: 'Goalkeepers' },
+  { id: 'defence', label: 'Defenders' },
+  { id: 'midfield', label: 'Midfielders' },
+  { id: 'attack', label: 'Forwards' },
+  { id: 'unknown', label: 'Other' }
+];
+
+/**
+ * The squad grouped by position, goalkeepers first
+ */
+const TeamSquad: React.FC<{ squad: SquadPlayer[] }> = ({ squad }) => {
+  if (squad.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Users className="h-10 w-10 text-gray-400 mx-auto mb-3" />
+        <p className="text-gray-500">The provider lists no squad for this team.</p>
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-[50px]">#</TableHead>
+          <TableHead>Player</TableHead>
+          <TableHead>Position</TableHead>
+          <TableHead>Nationality</TableHead>
+          <TableHead className="text-right">Age</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {GROUPS.map(group => {
+          const players = squad
+            .filter(player => getPositionGroup(player.position) === group.id)
+            .sort((a, b) => (a.shirtNumber ?? 100) - (b.shirtNumber ?? 100) || a.name.localeCompare(b.name));
+          if (players.length === 0) return null;
+
+          return (
+            <React.Fragment key={group.id}>
+              <TableRow className="bg-gray-50 hover:bg-gray-50">
+                <TableCell colSpan={5} className="py-2 text-xs font-semibold uppercase text-gray-500">{group.label}</TableCell>
+              </TableRow>
+              {players.map(player => (
+                <TableRow key={player.id}>
+                  <TableCell className="text-gray-500">{player.shirtNumber ?? '-'}</TableCell>
+                  <TableCell className="font-medium">
+                    <Link to={`/player/${player.id}`} className="hover:text-blue-700 hover:underline">{player.name}</Link>
+                  </TableCell>
+                  <TableCell className="text-gray-600">{player.position}</TableCell>
+                  <TableCell className="text-gray-600">{player.nationality || 'N/A'}</TableCell>
+                  <TableCell className="text-right text-gray-600">{getAge(player.dateOfBirth) ?? 'N/A'}</TableCell>
+                </TableRow>
+              ))}
+            </React.Fragment>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default TeamSquad;
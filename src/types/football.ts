@@ -8,6 +8,76 @@ export interface Team {
   venue?: string;
   website?: string;
   location?: string;
+  squad?: SquadPlayer[];
+}
+
+/** The identity of a team, enough to look up its matches */
+export type TeamRef = Pick<Team, 'id' | 'name'>;
+
+export interface SquadPlayer {
+  id: string;
+  name: string;
+  position: string;
+  dateOfBirth?: string;
+  nationality?: string;
+  shirtNumber?: number | null;
+}
+
+export interface Player {
+  id: string;
+  name: string;
+  position: string;
+  nationality?: string;
+  dateOfBirth?: string;
+  birthPlace?: string;
+  height?: string;
+  weight?: string;
+  shirtNumber?: number | null;
+  currentTeam?: { id: string; name: string; crest?: string };
+  photo?: string;
+  description?: string;
+  /** Earlier clubs, oldest first; empty when the provider reports no history */
+  formerTeams?: PlayerFormerTeam[];
+  honours?: PlayerHonour[];
+}
+
+export interface PlayerFormerTeam {
+  teamId: string;
+  teamName: string;
+  crest?: string;
+  /** Years or dates as the provider reports them */
+  joined?: string;
+  departed?: string;
+  /** e.g. "Loan" */
+  moveType?: string;
+}
+
+export interface PlayerHonour {
+  title: string;
+  season: string;
+  teamName?: string;
+}
+
+export type CompetitionFormat = 'league' | 'cup' | 'group-knockout';
+
+export interface Competition {
+  /** Code used across the app and by football-data.org, e.g. `PL` */
+  code: string;
+  name: string;
+  country: string;
+  format: CompetitionFormat;
+  /** Number of teams, null when the source does not say */
+  teamCount: number | null;
+  logo: string;
+  /** Seasons are single years ("2024") rather than "2024-2025", e.g. MLS */
+  calendarYear?: boolean;
+  /** Id of the tiebreak rule set ordering teams level on points, see tiebreakRules.ts */
+  tiebreakRules?: string;
+  /** TheSportsDB league id and name, required by the TheSportsDB adapter */
+  theSportsDb?: {
+    id: string;
+    league: string;
+  };
 }
 
 export interface Match {
@@ -15,12 +85,18 @@ export interface Match {
   homeTeam: Team;
   awayTeam: Team;
   utcDate: string;
-  status: 'FINISHED' | 'SCHEDULED' | 'IN_PLAY' | 'LIVE';
+  /** Postponed, suspended and cancelled matches are neither results nor remaining fixtures */
+  status: 'FINISHED' | 'SCHEDULED' | 'IN_PLAY' | 'LIVE' | 'POSTPONED' | 'SUSPENDED' | 'CANCELLED';
   score: {
     fullTime: {
       home: number | null;
       away: number | null;
     };
+    /** Only some providers report half-time scores */
+    halfTime?: {
+      home: number | null;
+      away: number | null;
+    };
   };
   competition: {
     name: string;
@@ -28,6 +104,10 @@ export interface Match {
   season: string;
   matchday: number | null;
   goalscorers?: any[];
+  /** Match metadata, filled in where the provider reports it */
+  venue?: string;
+  referee?: string;
+  attendance?: number | null;
 }
 
 export interface Standing {
@@ -42,6 +122,44 @@ export interface Standing {
   goalsAgainst: number;
   goalDifference: number;
   form: string;
+  /** Points taken off by the league this season; `points` is already net of them */
+  deductedPoints?: number;
+  deductionReason?: string;
+  /** Why this team ranks above the next one, set by the standings engine */
+  rankReason?: RankReason;
+  /** Places gained against an earlier table (the previous matchday, or the actual table in a what-if scenario) */
+  positionChange?: number;
+  /** Points gained against the actual table in a what-if scenario */
+  pointsChange?: number;
+}
+
+export interface PointsDeduction {
+  /** Team name as most providers spell it; matched ignoring "FC" and case */
+  team: string;
+  points: number;
+  reason: string;
+  /** Date the deduction took effect (YYYY-MM-DD) */
+  date?: string;
+}
+
+export type TiebreakCriterion =
+  | 'points'
+  | 'goalDifference'
+  | 'goalsFor'
+  | 'wins'
+  | 'awayGoalsFor'
+  | 'awayWins'
+  | 'headToHeadPoints'
+  | 'headToHeadGoalDifference'
+  | 'headToHeadGoalsFor'
+  | 'headToHeadAwayGoalsFor';
+
+export interface RankReason {
+  /** Criterion that separated the two teams; `name` when they are level on every one */
+  criterion: TiebreakCriterion | 'name';
+  value: number | string;
+  nextValue: number | string;
+  nextTeam: string;
 }
 
 export interface LineupPlayer {
@@ -50,6 +168,8 @@ export interface LineupPlayer {
   strPosition: string;
   strFormation: string;
   idTeam: string;
+  /** On the bench rather than in the starting eleven */
+  substitute?: boolean;
 }
 
 export interface EventStat {
@@ -67,4 +187,118 @@ export interface TimelineEvent {
   strPlayer: string;
   strAssist: string;
   strTimelineDescription: string;
+  intTime?: string;
+}
+
+/**
+ * Where a response came from: fetched just now, served from the cache while
+ * still fresh, served from an expired cache entry, or demonstration data.
+ */
+export type DataSource = 'live' | 'cached' | 'stale' | 'mock';
+
+export interface DataProvenance {
+  source: DataSource;
+  /** Provider that produced the data, e.g. TheSportsDB */
+  provider: string;
+  /** ISO timestamp of the underlying HTTP response */
+  fetchedAt: string;
+  notice?: string;
+}
+
+export interface StandingsGroup {
+  stage: string;
+  type: string;
+  table: Standing[];
+}
+
+export interface StandingsResponse {
+  standings: StandingsGroup[];
+  competition: {
+    name: string;
+    code: string;
+  };
+  season: string;
+  provenance?: DataProvenance;
+}
+
+export interface MatchesResponse {
+  matches: Match[];
+  count: number;
+  provenance?: DataProvenance;
+}
+
+export interface TeamsResponse {
+  teams: Team[];
+  count: number;
+  provenance?: DataProvenance;
+}
+
+export interface TeamResponse {
+  /** Null when the provider does not know the team */
+  team: Team | null;
+  /** Catalog code of the league the team plays in, when the provider reports one */
+  competition?: string;
+  provenance?: DataProvenance;
+}
+
+export interface PlayerResponse {
+  /** Null when the provider does not know the player */
+  player: Player | null;
+  provenance?: DataProvenance;
+}
+
+export interface PlayersResponse {
+  players: Player[];
+  count: number;
+  provenance?: DataProvenance;
+}
+
+export interface MatchResponse {
+  /** Null when the provider does not know the match */
+  match: Match | null;
+  provenance?: DataProvenance;
+}
+
+export interface LineupResponse {
+  lineup: LineupPlayer[];
+  provenance?: DataProvenance;
+}
+
+export interface EventStatsResponse {
+  eventstats: EventStat[];
+  provenance?: DataProvenance;
+}
+
+export interface TimelineResponse {
+  timeline: TimelineEvent[];
+  provenance?: DataProvenance;
+}
+
+export interface TopScorer {
+  name: string;
+  goals: number;
+  team: string;
+  nationality: string;
+  playerId?: string;
+  /** Only some providers count assists; missing means unknown, not zero */
+  assists?: number | null;
+  playedMatches?: number | null;
+}
+
+export interface TopScorersResponse {
+  scorers: TopScorer[];
+  provenance?: DataProvenance;
+}
+
+export interface Season {
+  /** "2024-2025", or "2024" for calendar-year competitions */
+  label: string;
+  /** Season the provider reports as in progress */
+  current: boolean;
+}
+
+export interface SeasonsResponse {
+  /** Newest first */
+  seasons: Season[];
+  provenance?: DataProvenance;
 }
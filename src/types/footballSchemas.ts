@@ -0,0 +1,193 @@
+import { z } from 'zod';
+import {
+  Competition,
+  EventStat,
+  LineupPlayer,
+  Match,
+  Player,
+  Season,
+  SquadPlayer,
+  Standing,
+  Team,
+  TimelineEvent,
+  TopScorer
+} from './football';
+
+// Runtime schemas for the normalized types in ./football.ts.
+// Every DataProvider result is checked against these before reaching a page.
+// The interfaces stay the source of truth: without strictNullChecks zod infers
+// every key as optional, so each schema is cast to its interface.
+
+export const squadPlayerSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  position: z.string(),
+  dateOfBirth: z.string().optional(),
+  nationality: z.string().optional(),
+  shirtNumber: z.number().int().nullable().optional()
+}) as z.ZodType<SquadPlayer>;
+
+export const playerSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  position: z.string(),
+  nationality: z.string().optional(),
+  dateOfBirth: z.string().optional(),
+  birthPlace: z.string().optional(),
+  height: z.string().optional(),
+  weight: z.string().optional(),
+  shirtNumber: z.number().int().nullable().optional(),
+  currentTeam: z.object({ id: z.string().min(1), name: z.string().min(1), crest: z.string().optional() }).optional(),
+  photo: z.string().optional(),
+  description: z.string().optional(),
+  formerTeams: z.array(z.object({
+    teamId: z.string(),
+    teamName: z.string().min(1),
+    crest: z.string().optional(),
+    joined: z.string().optional(),
+    departed: z.string().optional(),
+    moveType: z.string().optional()
+  })).optional(),
+  honours: z.array(z.object({
+    title: z.string().min(1),
+    season: z.string(),
+    teamName: z.string().optional()
+  })).optional()
+}) as z.ZodType<Player>;
+
+export const teamSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  shortName: z.string(),
+  tla: z.string(),
+  crest: z.string(),
+  founded: z.number().int().nullable().optional(),
+  venue: z.string().optional(),
+  website: z.string().optional(),
+  location: z.string().optional(),
+  squad: z.array(squadPlayerSchema).optional()
+}) as z.ZodType<Team>;
+
+export const matchSchema = z.object({
+  id: z.string().min(1),
+  homeTeam: teamSchema,
+  awayTeam: teamSchema,
+  utcDate: z.string().min(1),
+  status: z.enum(['FINISHED', 'SCHEDULED', 'IN_PLAY', 'LIVE', 'POSTPONED', 'SUSPENDED', 'CANCELLED']),
+  score: z.object({
+    fullTime: z.object({
+      home: z.number().int().min(0).nullable(),
+      away: z.number().int().min(0).nullable()
+    }),
+    halfTime: z.object({
+      home: z.number().int().min(0).nullable(),
+      away: z.number().int().min(0).nullable()
+    }).optional()
+  }),
+  competition: z.object({ name: z.string() }),
+  season: z.string(),
+  matchday: z.number().int().nullable(),
+  goalscorers: z.array(z.unknown()).optional(),
+  venue: z.string().optional(),
+  referee: z.string().optional(),
+  attendance: z.number().int().min(0).nullable().optional()
+}) as z.ZodType<Match>;
+
+export const standingSchema = z.object({
+  position: z.number().int().positive(),
+  team: teamSchema,
+  playedGames: z.number().int().min(0),
+  won: z.number().int().min(0),
+  draw: z.number().int().min(0),
+  lost: z.number().int().min(0),
+  points: z.number().int(),
+  goalsFor: z.number().int().min(0),
+  goalsAgainst: z.number().int().min(0),
+  goalDifference: z.number().int(),
+  form: z.string(),
+  deductedPoints: z.number().int().positive().optional(),
+  deductionReason: z.string().optional()
+}) as z.ZodType<Standing>;
+
+export const lineupPlayerSchema = z.object({
+  idPlayer: z.string().min(1),
+  strPlayer: z.string().min(1),
+  strPosition: z.string(),
+  strFormation: z.string(),
+  idTeam: z.string(),
+  substitute: z.boolean().optional()
+}) as z.ZodType<LineupPlayer>;
+
+export const eventStatSchema = z.object({
+  strStat: z.string().min(1),
+  intHome: z.string(),
+  intAway: z.string()
+}) as z.ZodType<EventStat>;
+
+export const timelineEventSchema = z.object({
+  idTimeline: z.string().min(1),
+  idEvent: z.string(),
+  strTimeline: z.string(),
+  strTimelineDetail: z.string(),
+  strTeam: z.string(),
+  strPlayer: z.string(),
+  strAssist: z.string(),
+  strTimelineDescription: z.string(),
+  intTime: z.string().optional()
+}) as z.ZodType<TimelineEvent>;
+
+export const topScorerSchema = z.object({
+  name: z.string().min(1),
+  goals: z.number().int().min(0),
+  team: z.string(),
+  nationality: z.string(),
+  playerId: z.string().optional(),
+  assists: z.number().int().min(0).nullable().optional(),
+  playedMatches: z.number().int().min(0).nullable().optional()
+}) as z.ZodType<TopScorer>;
+
+export const seasonSchema = z.object({
+  label: z.string().regex(/^\d{4}(-\d{4})?$/, 'Expected a YYYY or YYYY-YYYY season'),
+  current: z.boolean()
+}) as z.ZodType<Season>;
+
+export const competitionSchema = z.object({
+  code: z.string().min(1),
+  name: z.string().min(1),
+  country: z.string(),
+  format: z.enum(['league', 'cup', 'group-knockout']),
+  teamCount: z.number().int().positive().nullable(),
+  logo: z.string(),
+  calendarYear: z.boolean().optional(),
+  tiebreakRules: z.string().optional(),
+  theSportsDb: z.object({
+    id: z.string().min(1),
+    league: z.string().min(1)
+  }).optional()
+}) as z.ZodType<Competition>;
+
+// Response envelopes: rows are validated separately so that one bad row
+// does not discard the whole response.
+
+export const standingsEnvelopeSchema = z.object({
+  standings: z.array(z.object({
+    stage: z.string(),
+    type: z.string(),
+    table: z.array(z.unknown())
+  })),
+  competition: z.object({
+    name: z.string(),
+    code: z.string()
+  }),
+  season: z.string()
+});
+
+export const matchesEnvelopeSchema = z.object({
+  matches: z.array(z.unknown()),
+  count: z.number()
+});
+
+export const teamsEnvelopeSchema = z.object({
+  teams: z.array(z.unknown()),
+  count: z.number()
+});
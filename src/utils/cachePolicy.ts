@@ -0,0 +1,36 @@
+/**
+ * Cache Policy - Time-to-live rules for API responses
+ *
+ * Adapters pick a TTL per endpoint: completed seasons never change and can be
+ * kept for weeks, while live fixtures go stale within a minute.
+ */
+
+export const CACHE_TTL = {
+  live: 60 * 1000,                       // Live scores and upcoming fixtures
+  standard: 10 * 60 * 1000,              // Current season tables and results
+  static: 24 * 60 * 60 * 1000,           // Teams, competitions and season lists
+  pastSeason: 30 * 24 * 60 * 60 * 1000,  // Completed seasons
+};
+
+/**
+ * Check whether a season label ("2023-2024" or "2023") has finished
+ * Split seasons are treated as finished from August of their final year
+ */
+export const isPastSeason = (season?: string, now: Date = new Date()): boolean => {
+  const years = season?.match(/\d{4}/g);
+  if (!years) return false;
+
+  const endYear = parseInt(years[years.length - 1]);
+  const currentYear = now.getFullYear();
+
+  if (endYear < currentYear) return true;
+  if (endYear > currentYear || years.length === 1) return false;
+
+  return now.getMonth() >= 7;
+};
+
+/**
+ * TTL for season-scoped data such as tables, results and scorers
+ */
+export const getSeasonTTL = (season?: string): number =>
+  isPastSeason(season) ? CACHE_TTL.pastSeason : CACHE_TTL.standard;
@@ -0,0 +1,107 @@
+/**
+ * CompetitionCatalog Class - Competition metadata shared by the whole app
+ *
+ * Holds every competition the app can show, with its country, format, team
+ * count, logo and provider ids. It starts from the local list in
+ * `competitionConfig.ts` and, when configured, adds the competitions offered by
+ * the active provider. Adapters resolve codes here and every competition
+ * selector is built from it, so an unknown code fails loudly instead of
+ * quietly showing the Premier League.
+ */
+
+import type FootballAPI from './footballApi';
+import { competitionConfig } from './competitionConfig';
+import { Competition } from '@/types/football';
+
+/**
+ * Thrown when a competition code is missing from the catalog, or lacks the
+ * ids a provider needs to look it up
+ */
+export class UnknownCompetitionError extends Error {
+  public code: string;
+
+  constructor(code: string, detail = 'is not in the competition catalog') {
+    super(`Competition "${code}" ${detail}`);
+    this.name = 'UnknownCompetitionError';
+    this.code = code;
+  }
+}
+
+class CompetitionCatalog {
+  private competitions = new Map<string, Competition>();
+  private defaultCode: string;
+
+  /**
+   * Constructor - Seed the catalog with locally configured competitions
+   * @param competitions - Curated entries, kept in their configured order
+   * @param defaultCode - Competition selected when a page first loads
+   */
+  constructor(competitions: Competition[], defaultCode: string) {
+    competitions.forEach(competition => this.competitions.set(competition.code, competition));
+    this.defaultCode = this.competitions.has(defaultCode) ? defaultCode : competitions[0]?.code;
+  }
+
+  getAll(): Competition[] {
+    return [...this.competitions.values()];
+  }
+
+  get(code: string): Competition | undefined {
+    return this.competitions.get(code);
+  }
+
+  /**
+   * Look up a competition, throwing UnknownCompetitionError when it is missing
+   */
+  require(code: string): Competition {
+    const competition = this.competitions.get(code);
+    if (!competition) throw new UnknownCompetitionError(code);
+    return competition;
+  }
+
+  /**
+   * Display name for a code, or the code itself when it is unknown
+   */
+  getName(code: string): string {
+    return this.competitions.get(code)?.name ?? code;
+  }
+
+  getDefaultCode(): string {
+    return this.defaultCode;
+  }
+
+  /**
+   * Add competitions loaded from a provider
+   * Entries already in the catalog (same code or TheSportsDB id) keep their
+   * curated metadata; the rest are appended sorted by country and name.
+   */
+  merge(competitions: Competition[]): void {
+    const knownLeagueIds = new Set(this.getAll().map(competition => competition.theSportsDb?.id).filter(Boolean));
+    const additions = competitions
+      .filter(competition => !this.competitions.has(competition.code) && !knownLeagueIds.has(competition.theSportsDb?.id))
+      .sort((a, b) => a.country.localeCompare(b.country) || a.name.localeCompare(b.name));
+
+    additions.forEach(competition => this.competitions.set(competition.code, competition));
+  }
+
+  /**
+   * Load the catalog for the configured source
+   * With the `provider` source the active provider's competitions are merged in;
+   * a failed load keeps the local entries so the selectors always have options.
+   */
+  async load(api: FootballAPI, signal?: AbortSignal): Promise<Competition[]> {
+    if (competitionConfig.source !== 'provider') return this.getAll();
+
+    try {
+      this.merge(await api.fetchCompetitions(signal));
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn(`⚠️ Could not load competitions from ${api.provider.name}, using the local catalog`, error);
+    }
+    return this.getAll();
+  }
+}
+
+// Single catalog shared by adapters and pages
+export const competitionCatalog = new CompetitionCatalog(competitionConfig.competitions, competitionConfig.defaultCompetition);
+
+export default CompetitionCatalog;
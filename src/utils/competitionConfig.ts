@@ -0,0 +1,121 @@
+import { Competition } from '@/types/football';
+
+// Competition Catalog Configuration
+export const competitionConfig = {
+  source: import.meta.env.VITE_COMPETITION_SOURCE || 'local', // local | provider
+  defaultCompetition: import.meta.env.VITE_DEFAULT_COMPETITION || 'PL',
+  competitions: [
+    {
+      code: 'PL',
+      name: 'Premier League',
+      country: 'England',
+      format: 'league',
+      teamCount: 20,
+      logo: 'https://crests.football-data.org/PL.png',
+      tiebreakRules: 'goal-difference',
+      theSportsDb: { id: '4328', league: 'English Premier League' }
+    },
+    {
+      code: 'PD',
+      name: 'La Liga',
+      country: 'Spain',
+      format: 'league',
+      teamCount: 20,
+      logo: 'https://crests.football-data.org/PD.png',
+      tiebreakRules: 'head-to-head',
+      theSportsDb: { id: '4335', league: 'Spanish La Liga' }
+    },
+    {
+      code: 'SA',
+      name: 'Serie A',
+      country: 'Italy',
+      format: 'league',
+      teamCount: 20,
+      logo: 'https://crests.football-data.org/SA.png',
+      tiebreakRules: 'head-to-head',
+      theSportsDb: { id: '4332', league: 'Italian Serie A' }
+    },
+    {
+      code: 'BL1',
+      name: 'Bundesliga',
+      country: 'Germany',
+      format: 'league',
+      teamCount: 18,
+      logo: 'https://crests.football-data.org/BL1.png',
+      tiebreakRules: 'bundesliga',
+      theSportsDb: { id: '4331', league: 'German Bundesliga' }
+    },
+    {
+      code: 'FL1',
+      name: 'Ligue 1',
+      country: 'France',
+      format: 'league',
+      teamCount: 18,
+      logo: 'https://crests.football-data.org/FL1.png',
+      tiebreakRules: 'ligue-1',
+      theSportsDb: { id: '4334', league: 'French Ligue 1' }
+    },
+    {
+      code: 'DED',
+      name: 'Eredivisie',
+      country: 'Netherlands',
+      format: 'league',
+      teamCount: 18,
+      logo: 'https://crests.football-data.org/ED.png',
+      tiebreakRules: 'goal-difference',
+      theSportsDb: { id: '4337', league: 'Dutch Eredivisie' }
+    },
+    {
+      code: 'PPL',
+      name: 'Primeira Liga',
+      country: 'Portugal',
+      format: 'league',
+      teamCount: 18,
+      logo: 'https://crests.football-data.org/PPL.png',
+      tiebreakRules: 'head-to-head',
+      theSportsDb: { id: '4344', league: 'Portuguese Primeira Liga' }
+    },
+    {
+      code: 'CL',
+      name: 'UEFA Champions League',
+      country: 'Europe',
+      format: 'group-knockout',
+      teamCount: 36,
+      logo: 'https://crests.football-data.org/CL.png',
+      tiebreakRules: 'uefa-league-phase',
+      theSportsDb: { id: '4480', league: 'UEFA Champions League' }
+    },
+    {
+      code: 'BSA',
+      name: 'Brasileirão Série A',
+      country: 'Brazil',
+      format: 'league',
+      teamCount: 20,
+      logo: '',
+      calendarYear: true,
+      tiebreakRules: 'wins-first',
+      theSportsDb: { id: '4351', league: 'Brazilian Serie A' }
+    },
+    {
+      code: 'MLS',
+      name: 'Major League Soccer',
+      country: 'USA',
+      format: 'league',
+      teamCount: 30,
+      logo: '',
+      calendarYear: true,
+      tiebreakRules: 'wins-first',
+      theSportsDb: { id: '4346', league: 'American Major League Soccer' }
+    }
+  ] as Competition[],
+};
+
+// Competition Catalog Setup Instructions:
+// 1. Edit the list above to add, remove or reorder competitions; every selector uses it
+// 2. Mark competitions played within one calendar year (MLS, Brasileirão) with calendarYear: true
+// 3. tiebreakRules picks how teams level on points are ordered (rule sets are in tiebreakRules.ts)
+// 4. Each entry needs a TheSportsDB league id and name to work with the TheSportsDB adapter
+//    (look them up at https://www.thesportsdb.com/api/v1/json/3/search_all_leagues.php?s=Soccer)
+// 5. Set VITE_COMPETITION_SOURCE=provider to add every competition the active provider offers:
+//    VITE_COMPETITION_SOURCE=provider
+//    VITE_DEFAULT_COMPETITION=PL
@@ -0,0 +1,49 @@
+/**
+ * DataSettings Class - User preferences for data loading
+ *
+ * Holds whether adapters may fall back to demonstration data when a provider
+ * fails. The default comes from VITE_ALLOW_MOCK_DATA and the user's choice is
+ * remembered in localStorage.
+ */
+
+import { providerConfig } from './providerConfig';
+
+type SettingsListener = () => void;
+
+const MOCK_FALLBACK_KEY = 'footballytics-mock-fallback';
+
+class DataSettings {
+  private mockFallback: boolean;
+  private listeners = new Set<SettingsListener>();
+
+  constructor() {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(MOCK_FALLBACK_KEY) : null;
+    this.mockFallback = stored === null ? providerConfig.allowMockData : stored === 'true';
+  }
+
+  /**
+   * Whether adapters may serve demo data instead of surfacing an error
+   */
+  isMockFallbackEnabled(): boolean {
+    return this.mockFallback;
+  }
+
+  setMockFallbackEnabled(enabled: boolean): void {
+    this.mockFallback = enabled;
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(MOCK_FALLBACK_KEY, String(enabled));
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe(listener: SettingsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const dataSettings = new DataSettings();
+
+export default DataSettings;
@@ -0,0 +1,238 @@
+/**
+ * EloRatings Class - Team strength ratings from match results
+ *
+ * Rates every team that appears in processed results on one scale, so teams
+ * from different competitions and seasons can be compared. Ratings follow the
+ * World Football Elo conventions:
+ * - Expected score: E = 1 / (1 + 10^((opponent - (rating + H)) / 400)), where
+ *   H is the home advantage added to the home side's rating.
+ * - Update: rating += K × G × (W - E), with W = 1 for a win, 0.5 for a draw
+ *   and 0 for a loss. The away side loses what the home side gains.
+ * - Goal-difference multiplier G: 1 for a one-goal margin or a draw, 1.5 for
+ *   two goals, (11 + margin) / 8 for three or more.
+ *
+ * Results are stored in localStorage and replayed on load. New results that
+ * come after everything already processed update the ratings incrementally;
+ * older ones (e.g. a past season loaded later) trigger a full replay so
+ * results are always applied in chronological order.
+ */
+
+import { Match } from '@/types/football';
+import { getTeamKey, isCompletedMatch } from './standingsEngine';
+
+export const ELO_SETTINGS = {
+  initialRating: 1500,
+  kFactor: 20,
+  homeAdvantage: 100
+};
+
+export interface EloRatingPoint {
+  date: string;
+  rating: number;
+}
+
+export interface EloTeamRating {
+  key: string;
+  name: string;
+  rating: number;
+  played: number;
+  /** Rating after each processed match, oldest first */
+  history: EloRatingPoint[];
+}
+
+/** Chart row: the date plus each selected team's rating, keyed by team name */
+export type EloHistoryRow = { date: string } & Record<string, number | string>;
+
+interface StoredResult {
+  id: string;
+  date: string;
+  homeKey: string;
+  homeName: string;
+  awayKey: string;
+  awayName: string;
+  homeGoals: number;
+  awayGoals: number;
+}
+
+type RatingsListener = () => void;
+
+const STORAGE_KEY = 'footballytics-elo-results';
+
+/**
+ * Expected score of the home side, between 0 and 1
+ */
+export const getExpectedScore = (homeRating: number, awayRating: number, homeAdvantage = ELO_SETTINGS.homeAdvantage): number =>
+  1 / (1 + Math.pow(10, (awayRating - (homeRating + homeAdvantage)) / 400));
+
+export const getGoalDifferenceMultiplier = (goalDifference: number): number => {
+  const margin = Math.abs(goalDifference);
+  if (margin <= 1) return 1;
+  if (margin === 2) return 1.5;
+  return (11 + margin) / 8;
+};
+
+const compareResults = (a: StoredResult, b: StoredResult): number =>
+  a.date.localeCompare(b.date) || a.id.localeCompare(b.id);
+
+class EloRatings {
+  private storageKey: string;
+  private results: StoredResult[] = [];
+  private resultIds = new Set<string>();
+  private ratings = new Map<string, EloTeamRating>();
+  private listeners = new Set<RatingsListener>();
+
+  /**
+   * Constructor - Load and replay stored results
+   * @param storageKey - localStorage key holding the processed results
+   */
+  constructor(storageKey: string = STORAGE_KEY) {
+    this.storageKey = storageKey;
+    this.results = this.load();
+    this.results.forEach(result => this.resultIds.add(result.id));
+    this.replay();
+  }
+
+  private load(): StoredResult[] {
+    if (typeof localStorage === 'undefined') return [];
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.storageKey) || '[]');
+      return Array.isArray(stored) ? stored.sort(compareResults) : [];
+    } catch (error) {
+      console.warn('⚠️ Could not read stored Elo results, starting fresh:', error);
+      return [];
+    }
+  }
+
+  private save(): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.results));
+    } catch (error) {
+      console.warn('⚠️ Could not store Elo results:', error);
+    }
+  }
+
+  private getRating(key: string, name: string): EloTeamRating {
+    let entry = this.ratings.get(key);
+    if (!entry) {
+      entry = { key, name, rating: ELO_SETTINGS.initialRating, played: 0, history: [] };
+      this.ratings.set(key, entry);
+    }
+    return entry;
+  }
+
+  private apply(result: StoredResult): void {
+    const home = this.getRating(result.homeKey, result.homeName);
+    const away = this.getRating(result.awayKey, result.awayName);
+
+    const expected = getExpectedScore(home.rating, away.rating);
+    const actual = result.homeGoals > result.awayGoals ? 1 : result.homeGoals === result.awayGoals ? 0.5 : 0;
+    const change = ELO_SETTINGS.kFactor * getGoalDifferenceMultiplier(result.homeGoals - result.awayGoals) * (actual - expected);
+
+    const update = (entry: EloTeamRating, delta: number) => {
+      entry.rating += delta;
+      entry.played++;
+      entry.history.push({ date: result.date, rating: Math.round(entry.rating) });
+    };
+
+    update(home, change);
+    update(away, -change);
+  }
+
+  private replay(): void {
+    this.ratings.clear();
+    this.results.forEach(result => this.apply(result));
+  }
+
+  /**
+   * Add finished matches to the ratings
+   * Matches already processed are skipped, so the same season can be passed again.
+   * @returns Number of new results
+   */
+  processMatches(matches: Match[]): number {
+    const latestDate = this.results[this.results.length - 1]?.date ?? '';
+
+    const added: StoredResult[] = matches
+      .filter(match => isCompletedMatch(match) && !this.resultIds.has(match.id))
+      .map(match => ({
+        id: match.id,
+        date: match.utcDate,
+        homeKey: getTeamKey(match.homeTeam),
+        homeName: match.homeTeam.name,
+        awayKey: getTeamKey(match.awayTeam),
+        awayName: match.awayTeam.name,
+        homeGoals: match.score.fullTime.home,
+        awayGoals: match.score.fullTime.away
+      }))
+      .sort(compareResults);
+
+    if (added.length === 0) return 0;
+
+    added.forEach(result => this.resultIds.add(result.id));
+    this.results.push(...added);
+
+    if (added[0].date >= latestDate) {
+      added.forEach(result => this.apply(result));
+    } else {
+      this.results.sort(compareResults);
+      this.replay();
+    }
+
+    this.save();
+    this.listeners.forEach(listener => listener());
+    return added.length;
+  }
+
+  /**
+   * All rated teams, highest rating first
+   */
+  getRatings(): EloTeamRating[] {
+    return [...this.ratings.values()].sort((a, b) => b.rating - a.rating);
+  }
+
+  /**
+   * Rating history of several teams merged into one row per date
+   * A team's value is missing on dates it did not play.
+   */
+  getHistory(keys: string[]): EloHistoryRow[] {
+    const rows = new Map<string, EloHistoryRow>();
+
+    keys.forEach(key => {
+      const entry = this.ratings.get(key);
+      entry?.history.forEach(point => {
+        const date = point.date.slice(0, 10);
+        const row = rows.get(date) ?? ({ date } as EloHistoryRow);
+        row[entry.name] = point.rating;
+        rows.set(date, row);
+      });
+    });
+
+    return [...rows.values()].sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  getResultCount(): number {
+    return this.results.length;
+  }
+
+  /**
+   * Forget every processed result
+   */
+  reset(): void {
+    this.results = [];
+    this.resultIds.clear();
+    this.ratings.clear();
+    this.save();
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe(listener: RatingsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const eloRatings = new EloRatings();
+
+export default EloRatings;
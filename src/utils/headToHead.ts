@@ -0,0 +1,117 @@
+/**
+ * Head to Head - Record of the meetings between two teams
+ *
+ * Meetings are finished matches between the two teams with a full-time score,
+ * in every season and competition the provider returns. Every figure is from
+ * the first team's point of view, so the second team's wins are its losses:
+ * - Biggest win: the result with the largest goal margin for that team; ties
+ *   go to the match with more goals, then the more recent match.
+ * - Highest scoring: the meeting with the most goals; ties go to the more
+ *   recent match.
+ * Extra time and penalty shoot-outs are not counted, as not every provider
+ * reports them; a cup tie level after 90 minutes is a draw.
+ */
+
+import { Match, TeamRef } from '@/types/football';
+import { isCompletedMatch, isSameTeam } from './standingsEngine';
+
+export type HeadToHeadResult = 'win' | 'draw' | 'loss';
+
+export interface HeadToHeadMeeting {
+  match: Match;
+  /** The first team played at home */
+  home: boolean;
+  scored: number;
+  conceded: number;
+  result: HeadToHeadResult;
+}
+
+export interface HeadToHeadRecord {
+  /** Newest first */
+  meetings: HeadToHeadMeeting[];
+  wins: number;
+  draws: number;
+  losses: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  /** The first team's biggest win, and its biggest loss (the second team's biggest win) */
+  biggestWin: HeadToHeadMeeting | null;
+  biggestLoss: HeadToHeadMeeting | null;
+  highestScoring: HeadToHeadMeeting | null;
+  /** Meetings per competition, most first */
+  competitions: { name: string; played: number }[];
+}
+
+const getTotal = (meeting: HeadToHeadMeeting) => meeting.scored + meeting.conceded;
+
+// Meetings are visited newest first, so a tie keeps the more recent match
+const isBiggerMargin = (candidate: HeadToHeadMeeting, current: HeadToHeadMeeting | null): boolean => {
+  if (!current) return true;
+  const difference = Math.abs(candidate.scored - candidate.conceded) - Math.abs(current.scored - current.conceded);
+  if (difference !== 0) return difference > 0;
+  return getTotal(candidate) > getTotal(current);
+};
+
+/**
+ * Whether a match is a meeting of the two teams, either way round
+ */
+export const isMeeting = (match: Match, teamA: TeamRef, teamB: TeamRef): boolean =>
+  (isSameTeam(match.homeTeam, teamA) && isSameTeam(match.awayTeam, teamB)) ||
+  (isSameTeam(match.homeTeam, teamB) && isSameTeam(match.awayTeam, teamA));
+
+/**
+ * Record of the finished meetings between two teams; other matches are ignored
+ */
+export const getHeadToHead = (matches: Match[], teamA: TeamRef, teamB: TeamRef): HeadToHeadRecord => {
+  const seen = new Set<string>();
+  const meetings: HeadToHeadMeeting[] = matches
+    .filter(match => isCompletedMatch(match) && isMeeting(match, teamA, teamB))
+    .filter(match => !seen.has(match.id) && !!seen.add(match.id))
+    .sort((a, b) => b.utcDate.localeCompare(a.utcDate))
+    .map(match => {
+      const home = isSameTeam(match.homeTeam, teamA);
+      const { home: homeGoals, away: awayGoals } = match.score.fullTime;
+      const scored = home ? homeGoals : awayGoals;
+      const conceded = home ? awayGoals : homeGoals;
+      return { match, home, scored, conceded, result: scored > conceded ? 'win' : scored === conceded ? 'draw' : 'loss' };
+    });
+
+  const record: HeadToHeadRecord = {
+    meetings,
+    wins: 0,
+    draws: 0,
+    losses: 0,
+    goalsFor: 0,
+    goalsAgainst: 0,
+    biggestWin: null,
+    biggestLoss: null,
+    highestScoring: null,
+    competitions: []
+  };
+  const competitions = new Map<string, number>();
+
+  meetings.forEach(meeting => {
+    record.goalsFor += meeting.scored;
+    record.goalsAgainst += meeting.conceded;
+    if (meeting.result === 'win') {
+      record.wins++;
+      if (isBiggerMargin(meeting, record.biggestWin)) record.biggestWin = meeting;
+    } else if (meeting.result === 'draw') {
+      record.draws++;
+    } else {
+      record.losses++;
+      if (isBiggerMargin(meeting, record.biggestLoss)) record.biggestLoss = meeting;
+    }
+    if (!record.highestScoring || getTotal(meeting) > getTotal(record.highestScoring)) {
+      record.highestScoring = meeting;
+    }
+    const competition = meeting.match.competition?.name || 'Unknown competition';
+    competitions.set(competition, (competitions.get(competition) ?? 0) + 1);
+  });
+
+  record.competitions = [...competitions.entries()]
+    .map(([name, played]) => ({ name, played }))
+    .sort((a, b) => b.played - a.played || a.name.localeCompare(b.name));
+
+  return record;
+};
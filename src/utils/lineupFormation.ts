@@ -0,0 +1,70 @@
+/**
+ * Lineup Formation - Arrange a team's starting eleven in lines
+ *
+ * Starters are ordered goalkeeper, defence, midfield, attack using the
+ * position each provider reports ("Defender", "Defence", "Centre-Back"...).
+ * When the formation is known and adds up to ten outfield players
+ * ("4-2-3-1"), the ordered starters are cut into lines of those sizes, so a
+ * holding midfielder lands in the right line even though both providers just
+ * call them midfielders. Otherwise players are grouped by position alone.
+ */
+
+import { LineupPlayer } from '@/types/football';
+
+export type PositionGroup = 'goalkeeper' | 'defence' | 'midfield' | 'attack' | 'unknown';
+
+export interface TeamLineup {
+  formation: string;
+  /** Lines from the goalkeeper forwards */
+  lines: LineupPlayer[][];
+  substitutes: LineupPlayer[];
+}
+
+const GROUP_ORDER: PositionGroup[] = ['goalkeeper', 'defence', 'midfield', 'attack', 'unknown'];
+const STARTERS = 11;
+
+export const getPositionGroup = (position: string): PositionGroup => {
+  const value = position.toLowerCase();
+  if (/goal|keeper|^gk$/.test(value)) return 'goalkeeper';
+  if (/back|defen[cds]|^(cb|lb|rb|d)$/.test(value)) return 'defence';
+  if (/mid|^(cm|dm|am|m)$/.test(value)) return 'midfield';
+  if (/forward|striker|wing|offence|attack|^(cf|st|lw|rw|f)$/.test(value)) return 'attack';
+  return 'unknown';
+};
+
+/**
+ * Line sizes of a formation string, e.g. "4-2-3-1" gives [4, 2, 3, 1]
+ * Empty when the formation is missing or malformed.
+ */
+export const parseFormation = (formation: string): number[] => {
+  if (!/^\d(-\d){1,4}$/.test(formation.trim())) return [];
+  return formation.trim().split('-').map(Number);
+};
+
+/**
+ * Starting lines and substitutes of one team
+ * Without substitute flags the first eleven listed players start.
+ */
+export const getTeamLineup = (players: LineupPlayer[]): TeamLineup => {
+  const hasSubstituteFlags = players.some(player => player.substitute !== undefined);
+  const starters = hasSubstituteFlags ? players.filter(player => !player.substitute) : players.slice(0, STARTERS);
+  const substitutes = hasSubstituteFlags ? players.filter(player => player.substitute) : players.slice(STARTERS);
+  const formation = players.find(player => player.strFormation)?.strFormation ?? '';
+
+  const ordered = [...starters].sort((a, b) =>
+    GROUP_ORDER.indexOf(getPositionGroup(a.strPosition)) - GROUP_ORDER.indexOf(getPositionGroup(b.strPosition))
+  );
+
+  const lineSizes = parseFormation(formation);
+  const outfield = lineSizes.reduce((sum, size) => sum + size, 0);
+  if (lineSizes.length > 0 && outfield === STARTERS - 1 && ordered.length === STARTERS) {
+    let next = 0;
+    const lines = [1, ...lineSizes].map(size => ordered.slice(next, (next += size)));
+    return { formation, lines, substitutes };
+  }
+
+  const lines = GROUP_ORDER
+    .map(group => ordered.filter(player => getPositionGroup(player.strPosition) === group))
+    .filter(line => line.length > 0);
+  return { formation, lines, substitutes };
+};
@@ -0,0 +1,171 @@
+/**
+ * Match Metrics - Team statistics counted from match results
+ *
+ * Every figure comes from finished matches with a full-time score, so the
+ * numbers can be checked against the results list:
+ * - Clean sheet: a match in which the team conceded no goal.
+ * - Failed to score: a match in which the team scored no goal.
+ * - Biggest win / loss: the result with the largest goal margin; ties go to
+ *   the match with more goals, then the earlier match.
+ * - Points from losing positions: points won in matches the team trailed at
+ *   half-time. Only providers that report half-time scores support it; it is
+ *   null when none of a team's matches has one.
+ */
+
+import { Match, Team } from '@/types/football';
+import { getTeamKey, isCompletedMatch } from './standingsEngine';
+
+export interface MatchMargin {
+  opponent: string;
+  scored: number;
+  conceded: number;
+  home: boolean;
+  date: string;
+}
+
+export interface TeamMetrics {
+  team: Team;
+  played: number;
+  won: number;
+  draw: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  points: number;
+  cleanSheets: number;
+  failedToScore: number;
+  biggestWin: MatchMargin | null;
+  biggestLoss: MatchMargin | null;
+  /** Matches the team trailed at half-time, null without half-time scores */
+  trailingAtHalfTime: number | null;
+  pointsFromLosingPositions: number | null;
+}
+
+/** Radar axes on a 0-100 scale */
+export interface PerformanceRadarPoint {
+  team: string;
+  attack: number;
+  defense: number;
+  consistency: number;
+}
+
+export interface MatchMetricsOptions {
+  pointsForWin?: number;
+  pointsForDraw?: number;
+}
+
+const isBiggerMargin = (candidate: MatchMargin, current: MatchMargin | null): boolean => {
+  if (!current) return true;
+  const difference = Math.abs(candidate.scored - candidate.conceded) - Math.abs(current.scored - current.conceded);
+  if (difference !== 0) return difference > 0;
+  return candidate.scored + candidate.conceded > current.scored + current.conceded;
+};
+
+/**
+ * Metrics for every team that played at least one finished match
+ */
+export const computeMatchMetrics = (matches: Match[], options: MatchMetricsOptions = {}): TeamMetrics[] => {
+  const { pointsForWin = 3, pointsForDraw = 1 } = options;
+  const metrics = new Map<string, TeamMetrics>();
+
+  const getMetrics = (team: Team): TeamMetrics => {
+    const key = getTeamKey(team);
+    let entry = metrics.get(key);
+    if (!entry) {
+      entry = {
+        team,
+        played: 0,
+        won: 0,
+        draw: 0,
+        lost: 0,
+        goalsFor: 0,
+        goalsAgainst: 0,
+        points: 0,
+        cleanSheets: 0,
+        failedToScore: 0,
+        biggestWin: null,
+        biggestLoss: null,
+        trailingAtHalfTime: null,
+        pointsFromLosingPositions: null
+      };
+      metrics.set(key, entry);
+    }
+    return entry;
+  };
+
+  const addMatch = (
+    entry: TeamMetrics,
+    opponent: Team,
+    scored: number,
+    conceded: number,
+    halfTime: [number, number] | null,
+    home: boolean,
+    date: string
+  ) => {
+    const points = scored > conceded ? pointsForWin : scored === conceded ? pointsForDraw : 0;
+    const margin: MatchMargin = { opponent: opponent.name, scored, conceded, home, date };
+
+    entry.played++;
+    entry.goalsFor += scored;
+    entry.goalsAgainst += conceded;
+    entry.points += points;
+    if (conceded === 0) entry.cleanSheets++;
+    if (scored === 0) entry.failedToScore++;
+
+    if (scored > conceded) {
+      entry.won++;
+      if (isBiggerMargin(margin, entry.biggestWin)) entry.biggestWin = margin;
+    } else if (scored === conceded) {
+      entry.draw++;
+    } else {
+      entry.lost++;
+      if (isBiggerMargin(margin, entry.biggestLoss)) entry.biggestLoss = margin;
+    }
+
+    if (halfTime) {
+      entry.trailingAtHalfTime ??= 0;
+      entry.pointsFromLosingPositions ??= 0;
+      if (halfTime[0] < halfTime[1]) {
+        entry.trailingAtHalfTime++;
+        entry.pointsFromLosingPositions += points;
+      }
+    }
+  };
+
+  matches
+    .filter(isCompletedMatch)
+    .sort((a, b) => a.utcDate.localeCompare(b.utcDate))
+    .forEach(match => {
+      const { home, away } = match.score.fullTime;
+      const halfTime = match.score.halfTime;
+      const hasHalfTime = typeof halfTime?.home === 'number' && typeof halfTime?.away === 'number';
+      const date = match.utcDate.slice(0, 10);
+
+      addMatch(getMetrics(match.homeTeam), match.awayTeam, home, away, hasHalfTime ? [halfTime.home, halfTime.away] : null, true, date);
+      addMatch(getMetrics(match.awayTeam), match.homeTeam, away, home, hasHalfTime ? [halfTime.away, halfTime.home] : null, false, date);
+    });
+
+  return [...metrics.values()];
+};
+
+const percentage = (part: number, whole: number): number => whole > 0 ? Math.round((part / whole) * 100) : 0;
+
+/**
+ * Radar values, each on a 0-100 scale:
+ * - attack: goals scored per match as a percentage of the league's best rate
+ * - defense: clean sheets as a percentage of matches played
+ * - consistency: matches not lost as a percentage of matches played
+ */
+export const getPerformanceRadar = (metrics: TeamMetrics[]): PerformanceRadarPoint[] => {
+  const bestScoringRate = Math.max(0, ...metrics.map(entry => entry.played > 0 ? entry.goalsFor / entry.played : 0));
+
+  return metrics.map(entry => ({
+    team: entry.team.name,
+    attack: bestScoringRate > 0 ? Math.round((entry.goalsFor / entry.played / bestScoringRate) * 100) : 0,
+    defense: percentage(entry.cleanSheets, entry.played),
+    consistency: percentage(entry.won + entry.draw, entry.played)
+  }));
+};
+
+export const formatMargin = (margin: MatchMargin | null): string =>
+  margin ? `${margin.scored}-${margin.conceded} ${margin.home ? 'vs' : 'at'} ${margin.opponent}` : '-';
@@ -0,0 +1,198 @@
+/**
+ * PersistentCache Class - Shared IndexedDB response cache
+ *
+ * Stores API responses in IndexedDB so they survive page reloads, with an
+ * in-memory mirror for fast lookups. Entries carry their own TTL; expired
+ * entries are kept so FootballAPI can serve them while it revalidates.
+ * Falls back to memory-only caching when IndexedDB is unavailable.
+ *
+ * Every time the database opens, entries more than MAX_STALE_AGE past their
+ * TTL are removed, then the oldest entries beyond MAX_ENTRIES.
+ */
+
+/** How long an expired entry is kept for serving while it revalidates */
+const MAX_STALE_AGE = 7 * 24 * 60 * 60 * 1000;
+/** Entries kept in IndexedDB; match details and head-to-heads add up over time */
+const MAX_ENTRIES = 2000;
+
+export interface CacheEntry<T = unknown> {
+  key: string;
+  data: T;
+  timestamp: number;
+  ttl: number;
+}
+
+export interface CacheEntryInfo {
+  key: string;
+  timestamp: number;
+  ttl: number;
+  size: number;
+  isFresh: boolean;
+}
+
+type CacheListener = () => void;
+
+class PersistentCache {
+  private dbName: string;
+  private storeName = 'responses';
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private memory = new Map<string, CacheEntry>();
+  private listeners = new Set<CacheListener>();
+
+  /**
+   * Constructor - Configure the IndexedDB database name
+   * @param dbName - Name of the IndexedDB database
+   */
+  constructor(dbName: string) {
+    this.dbName = dbName;
+  }
+
+  /**
+   * Open (and create on first use) the IndexedDB database
+   */
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName, { keyPath: 'key' });
+        };
+        request.onsuccess = () => {
+          resolve(request.result);
+          this.prune(request.result);
+        };
+        request.onerror = () => {
+          console.warn('⚠️ IndexedDB unavailable, using in-memory cache only:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Run a single request against the object store
+   * Resolves undefined instead of rejecting so the cache never breaks a fetch
+   */
+  private async runRequest<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | undefined> {
+    const db = await this.openDatabase();
+    if (!db) return undefined;
+
+    return new Promise((resolve) => {
+      try {
+        const transaction = db.transaction(this.storeName, mode);
+        const request = operation(transaction.objectStore(this.storeName));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('⚠️ IndexedDB request failed:', request.error);
+          resolve(undefined);
+        };
+      } catch (error) {
+        console.warn('⚠️ IndexedDB transaction failed:', error);
+        resolve(undefined);
+      }
+    });
+  }
+
+  /**
+   * Remove entries long past their TTL, then the oldest ones over the limit
+   */
+  private prune(db: IDBDatabase): void {
+    try {
+      const store = db.transaction(this.storeName, 'readwrite').objectStore(this.storeName);
+      const request = store.getAll();
+      request.onsuccess = () => {
+        const now = Date.now();
+        const entries = (request.result as CacheEntry[]).sort((a, b) => b.timestamp - a.timestamp);
+        const removed = entries.filter((entry, index) => index >= MAX_ENTRIES || now - entry.timestamp - entry.ttl > MAX_STALE_AGE);
+        removed.forEach(entry => {
+          this.memory.delete(entry.key);
+          store.delete(entry.key);
+        });
+        if (removed.length > 0) {
+          console.log(`🧹 Removed ${removed.length} old cache entries`);
+          this.notify();
+        }
+      };
+      request.onerror = () => console.warn('⚠️ Could not prune the cache:', request.error);
+    } catch (error) {
+      console.warn('⚠️ Could not prune the cache:', error);
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  isFresh(entry: CacheEntry): boolean {
+    return (Date.now() - entry.timestamp) < entry.ttl;
+  }
+
+  async get<T = unknown>(key: string): Promise<CacheEntry<T> | undefined> {
+    const inMemory = this.memory.get(key);
+    if (inMemory) return inMemory as CacheEntry<T>;
+
+    const stored = await this.runRequest<CacheEntry<T>>('readonly', store => store.get(key));
+    if (stored) {
+      this.memory.set(key, stored);
+    }
+    return stored;
+  }
+
+  async set<T>(key: string, data: T, ttl: number): Promise<void> {
+    const entry: CacheEntry<T> = { key, data, timestamp: Date.now(), ttl };
+    this.memory.set(key, entry);
+    await this.runRequest('readwrite', store => store.put(entry));
+    this.notify();
+  }
+
+  async delete(key: string): Promise<void> {
+    this.memory.delete(key);
+    await this.runRequest('readwrite', store => store.delete(key));
+    this.notify();
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+    await this.runRequest('readwrite', store => store.clear());
+    this.notify();
+  }
+
+  /**
+   * Describe every cached entry for the cache inspector
+   */
+  async list(): Promise<CacheEntryInfo[]> {
+    const stored = await this.runRequest<CacheEntry[]>('readonly', store => store.getAll());
+    const entries = new Map<string, CacheEntry>();
+
+    (stored || []).forEach(entry => entries.set(entry.key, entry));
+    this.memory.forEach((entry, key) => entries.set(key, entry));
+
+    return [...entries.values()]
+      .map(entry => ({
+        key: entry.key,
+        timestamp: entry.timestamp,
+        ttl: entry.ttl,
+        size: JSON.stringify(entry.data)?.length || 0,
+        isFresh: this.isFresh(entry)
+      }))
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  subscribe(listener: CacheListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+// Single cache shared by every FootballAPI instance
+export const apiCache = new PersistentCache('footballytics-cache');
+
+export default PersistentCache;
@@ -0,0 +1,198 @@
+/**
+ * Player Leaderboards - Scoring and discipline tables for a competition season
+ *
+ * Goals come from the provider's scorers list for the players it includes,
+ * and so do assists when the provider counts them (football-data.org does).
+ * Everything else is counted from the lineups and timelines of finished
+ * matches, with the same event rules as player pages (`playerSeasonStats.ts`):
+ * - Appearances: starters, and substitutes the timeline brings on. Without a
+ *   lineup, only players with an event in the match are seen.
+ * - Minutes: a starter plays from 0, a substitute from the minute they come
+ *   on, until substituted, sent off or full time at 90; stoppage time is
+ *   ignored. A player with any appearance that cannot be timed has no
+ *   minutes, and so no per-90 rates.
+ * Players are matched across sources by their normalized name.
+ */
+
+import { Match, TimelineEvent, TopScorer } from '@/types/football';
+import { getTeamLineup } from './lineupFormation';
+import { normalizePlayerName } from './playerProfile';
+import { getTimelineEventKind, PlayerMatchDetails } from './playerSeasonStats';
+
+export type LeaderboardStat = 'goals' | 'assists' | 'yellowCards' | 'redCards' | 'ownGoals';
+
+export interface LeaderboardRow {
+  key: string;
+  name: string;
+  team: string;
+  playerId?: string;
+  appearances: number;
+  /** Null when an appearance had no lineup to time it */
+  minutes: number | null;
+  goals: number;
+  assists: number;
+  yellowCards: number;
+  redCards: number;
+  ownGoals: number;
+}
+
+export const LEADERBOARD_STATS: { id: LeaderboardStat; label: string }[] = [
+  { id: 'goals', label: 'Goals' },
+  { id: 'assists', label: 'Assists' },
+  { id: 'yellowCards', label: 'Yellow cards' },
+  { id: 'redCards', label: 'Red cards' },
+  { id: 'ownGoals', label: 'Own goals' }
+];
+
+export const MATCH_MINUTES = 90;
+/** Fewer minutes make per-90 rates too noisy to rank */
+export const MIN_MINUTES_FOR_RATES = 270;
+
+interface Tally extends LeaderboardRow {
+  timed: boolean;
+  timedMinutes: number;
+}
+
+interface Participation {
+  name: string;
+  team: string;
+  playerId?: string;
+  on: number | null;
+  off: number | null;
+}
+
+const parseMinute = (value?: string): number | null => {
+  const minute = parseInt(value ?? '', 10);
+  return Number.isFinite(minute) ? Math.min(Math.max(minute, 0), MATCH_MINUTES) : null;
+};
+
+/**
+ * A stat per 90 minutes, null below the minutes threshold or without minutes
+ */
+export const getPer90 = (row: LeaderboardRow, stat: LeaderboardStat): number | null =>
+  row.minutes !== null && row.minutes >= MIN_MINUTES_FOR_RATES ? (row[stat] / row.minutes) * MATCH_MINUTES : null;
+
+const getTeamName = (match: Match, teamId: string): string =>
+  match.homeTeam.id === teamId ? match.homeTeam.name : match.awayTeam.id === teamId ? match.awayTeam.name : '';
+
+/**
+ * Lineup players of one match keyed by name, on the pitch from 0 when they start
+ */
+const getParticipants = (match: Match, lineup: PlayerMatchDetails['lineup']): Map<string, Participation> => {
+  const participants = new Map<string, Participation>();
+
+  [...new Set(lineup.map(player => player.idTeam))].forEach(teamId => {
+    const { lines, substitutes } = getTeamLineup(lineup.filter(player => player.idTeam === teamId));
+    const team = getTeamName(match, teamId);
+    lines.flat().forEach(player => participants.set(normalizePlayerName(player.strPlayer), {
+      name: player.strPlayer, team, playerId: player.idPlayer, on: 0, off: null
+    }));
+    substitutes.forEach(player => participants.set(normalizePlayerName(player.strPlayer), {
+      name: player.strPlayer, team, playerId: player.idPlayer, on: null, off: null
+    }));
+  });
+
+  return participants;
+};
+
+/**
+ * One row per player with an appearance or a counted event, unsorted
+ */
+export const buildLeaderboard = (details: PlayerMatchDetails[], scorers: TopScorer[] = []): LeaderboardRow[] => {
+  const tallies = new Map<string, Tally>();
+
+  const getTally = (name: string, team: string, playerId?: string): Tally => {
+    const key = normalizePlayerName(name);
+    let tally = tallies.get(key);
+    if (!tally) {
+      tally = {
+        key, name, team, playerId, appearances: 0, minutes: null,
+        goals: 0, assists: 0, yellowCards: 0, redCards: 0, ownGoals: 0, timed: true, timedMinutes: 0
+      };
+      tallies.set(key, tally);
+    }
+    if (!tally.team && team) tally.team = team;
+    if (!tally.playerId && playerId) tally.playerId = playerId;
+    return tally;
+  };
+
+  details.forEach(({ match, lineup, timeline }) => {
+    const hasLineup = lineup.length > 0;
+    const participants = getParticipants(match, lineup);
+    const involved = new Set<string>();
+
+    const participant = (name: string, event: TimelineEvent): Participation => {
+      const key = normalizePlayerName(name);
+      if (!participants.has(key)) {
+        // Not in the lineup, so when they came on is unknown
+        participants.set(key, { name, team: event.strTeam, on: null, off: null });
+      }
+      return participants.get(key);
+    };
+
+    timeline.forEach(event => {
+      const kind = getTimelineEventKind(event);
+      const minute = parseMinute(event.intTime);
+
+      if (kind === 'substitution') {
+        if (event.strPlayer) {
+          const coming = participant(event.strPlayer, event);
+          if (coming.on === null) coming.on = minute ?? MATCH_MINUTES;
+          involved.add(normalizePlayerName(event.strPlayer));
+        }
+        if (event.strAssist) {
+          participant(event.strAssist, event).off = minute;
+          involved.add(normalizePlayerName(event.strAssist));
+        }
+        return;
+      }
+      if (kind === 'other' || !event.strPlayer) return;
+
+      const player = participant(event.strPlayer, event);
+      involved.add(normalizePlayerName(event.strPlayer));
+      // An own goal event may name the team it counted for, so only a lineup team is trusted
+      const tally = getTally(player.name, kind === 'ownGoal' && !player.playerId ? '' : player.team, player.playerId);
+
+      if (kind === 'goal') tally.goals += 1;
+      if (kind === 'ownGoal') tally.ownGoals += 1;
+      if (kind === 'yellowCard') tally.yellowCards += 1;
+      if (kind === 'redCard') {
+        tally.redCards += 1;
+        player.off = minute;
+      }
+      if (kind === 'goal' && event.strAssist) {
+        const assister = participant(event.strAssist, event);
+        involved.add(normalizePlayerName(event.strAssist));
+        getTally(assister.name, assister.team, assister.playerId).assists += 1;
+      }
+    });
+
+    participants.forEach((player, key) => {
+      if (player.on === null && !involved.has(key)) return;
+
+      const tally = getTally(player.name, player.team, player.playerId);
+      tally.appearances += 1;
+      if (hasLineup && player.playerId && player.on !== null) {
+        tally.timedMinutes += Math.max(0, (player.off ?? MATCH_MINUTES) - player.on);
+      } else {
+        tally.timed = false;
+      }
+    });
+  });
+
+  scorers.forEach(scorer => {
+    const tally = getTally(scorer.name, scorer.team, scorer.playerId);
+    tally.goals = scorer.goals;
+    if (typeof scorer.assists === 'number') tally.assists = scorer.assists;
+    // More matches than the lineups show means some could not be timed
+    if (typeof scorer.playedMatches === 'number' && scorer.playedMatches > tally.appearances) {
+      tally.appearances = scorer.playedMatches;
+      tally.timed = false;
+    }
+  });
+
+  return [...tallies.values()].map(({ timed, timedMinutes, ...row }) => ({
+    ...row,
+    minutes: timed && row.appearances > 0 ? timedMinutes : null
+  }));
+};
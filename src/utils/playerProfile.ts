@@ -0,0 +1,50 @@
+/**
+ * Player Profile - Helpers for player pages and squad lists
+ */
+
+import { Player, PlayerHonour } from '@/types/football';
+import { getStartYear } from './seasons';
+
+/**
+ * Name key for matching players across lineups, timelines and scorer lists
+ * Accents, case, spaces and punctuation are ignored.
+ */
+export const normalizePlayerName = (name: string): string =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * Age in whole years on a given day, null without a valid date of birth
+ */
+export const getAge = (dateOfBirth?: string, now: Date = new Date()): number | null => {
+  const born = dateOfBirth ? new Date(dateOfBirth) : null;
+  if (!born || Number.isNaN(born.getTime())) return null;
+  const birthdayPassed = now.getMonth() > born.getMonth() || (now.getMonth() === born.getMonth() && now.getDate() >= born.getDate());
+  return now.getFullYear() - born.getFullYear() - (birthdayPassed ? 0 : 1);
+};
+
+/**
+ * Honours grouped by title, most won first, seasons oldest first
+ */
+export const groupHonours = (honours: PlayerHonour[]): { title: string; seasons: string[] }[] => {
+  const groups = new Map<string, string[]>();
+  honours.forEach(honour => {
+    groups.set(honour.title, [...(groups.get(honour.title) ?? []), honour.season].filter(Boolean));
+  });
+
+  return [...groups.entries()]
+    .map(([title, seasons]) => ({ title, seasons: [...new Set(seasons)].sort() }))
+    .sort((a, b) => b.seasons.length - a.seasons.length || a.title.localeCompare(b.title));
+};
+
+const getYear = (value?: string): number => parseInt(value?.match(/\d{4}/)?.[0] ?? '', 10);
+
+/**
+ * Club a player was at during a season, from their club history
+ * A spell counts when it began by the season's first year and ended after it,
+ * the latest such spell winning so loans count; other seasons use the current club.
+ */
+export const getSeasonClub = (player: Player, season: string): { id: string; name: string } | undefined => {
+  const year = getStartYear(season);
+  const spell = [...(player.formerTeams ?? [])].reverse().find(team => getYear(team.joined) <= year && getYear(team.departed) > year);
+  return spell ? { id: spell.teamId, name: spell.teamName } : player.currentTeam;
+};
@@ -0,0 +1,117 @@
+/**
+ * Player Season Stats - Appearances and goals counted from match details
+ *
+ * Neither provider publishes per-player season totals on its free tier, so
+ * they are counted from each finished match's lineup and timeline:
+ * - Appearance: a start in the lineup, or a substitute the timeline brings on.
+ * - Goals and assists: timeline goal events naming the player. Own goals are
+ *   counted on their own, not as goals.
+ * - Cards: timeline card events; a second yellow counts as a red card.
+ * Lineups identify players by id but timelines only by name, so timeline
+ * events are matched on the normalized name.
+ */
+
+import { LineupPlayer, Match, TimelineEvent } from '@/types/football';
+import { getTeamLineup } from './lineupFormation';
+import { normalizePlayerName } from './playerProfile';
+
+export interface PlayerMatchDetails {
+  match: Match;
+  lineup: LineupPlayer[];
+  timeline: TimelineEvent[];
+}
+
+export interface PlayerMatchLine {
+  match: Match;
+  started: boolean;
+  appeared: boolean;
+  goals: number;
+  assists: number;
+  ownGoals: number;
+  yellowCards: number;
+  redCards: number;
+}
+
+export interface PlayerSeasonStats {
+  /** Matches with a lineup or a timeline to count from */
+  matchesCounted: number;
+  appearances: number;
+  starts: number;
+  substituteAppearances: number;
+  goals: number;
+  assists: number;
+  ownGoals: number;
+  yellowCards: number;
+  redCards: number;
+  /** Matches the player appeared or has an event in, oldest first */
+  matches: PlayerMatchLine[];
+}
+
+export type TimelineEventKind = 'goal' | 'ownGoal' | 'yellowCard' | 'redCard' | 'substitution' | 'other';
+
+/**
+ * What a timeline event records, from the labels both providers use
+ */
+export const getTimelineEventKind = (event: TimelineEvent): TimelineEventKind => {
+  const type = event.strTimeline.toLowerCase();
+  const detail = event.strTimelineDetail.toLowerCase();
+  if (type.includes('subst')) return 'substitution';
+  if (type.includes('goal')) return detail.includes('own') ? 'ownGoal' : 'goal';
+  if (type.includes('card')) return detail.includes('red') || detail.includes('second') ? 'redCard' : 'yellowCard';
+  return 'other';
+};
+
+const countLine = (player: { id: string; name: string }, { match, lineup, timeline }: PlayerMatchDetails): PlayerMatchLine => {
+  const name = normalizePlayerName(player.name);
+  const isPlayer = (candidate: string) => !!candidate && normalizePlayerName(candidate) === name;
+
+  const entry = lineup.find(candidate => candidate.idPlayer === player.id) ?? lineup.find(candidate => isPlayer(candidate.strPlayer));
+  const teamLineup = entry ? getTeamLineup(lineup.filter(candidate => candidate.idTeam === entry.idTeam)) : null;
+  const started = !!teamLineup?.lines.some(line => line.includes(entry));
+
+  const line: PlayerMatchLine = { match, started, appeared: started, goals: 0, assists: 0, ownGoals: 0, yellowCards: 0, redCards: 0 };
+
+  timeline.forEach(event => {
+    const kind = getTimelineEventKind(event);
+    const byPlayer = isPlayer(event.strPlayer);
+
+    // Substitutions name the player coming on in strPlayer and the one going off in strAssist
+    if (kind === 'substitution' && byPlayer) line.appeared = true;
+    if (kind === 'goal' && byPlayer) line.goals += 1;
+    if (kind === 'goal' && isPlayer(event.strAssist)) line.assists += 1;
+    if (kind === 'ownGoal' && byPlayer) line.ownGoals += 1;
+    if (kind === 'yellowCard' && byPlayer) line.yellowCards += 1;
+    if (kind === 'redCard' && byPlayer) line.redCards += 1;
+  });
+
+  // A player with a goal or card took part even when the lineup is missing
+  if (line.goals + line.assists + line.ownGoals + line.yellowCards + line.redCards > 0) line.appeared = true;
+  return line;
+};
+
+/**
+ * Season totals for one player from the details of the matches to count
+ */
+export const aggregatePlayerSeason = (player: { id: string; name: string }, details: PlayerMatchDetails[]): PlayerSeasonStats => {
+  const counted = details.filter(detail => detail.lineup.length > 0 || detail.timeline.length > 0);
+  const lines = counted
+    .map(detail => countLine(player, detail))
+    .filter(line => line.appeared)
+    .sort((a, b) => a.match.utcDate.localeCompare(b.match.utcDate));
+
+  const total = (key: 'goals' | 'assists' | 'ownGoals' | 'yellowCards' | 'redCards') =>
+    lines.reduce((sum, line) => sum + line[key], 0);
+
+  return {
+    matchesCounted: counted.length,
+    appearances: lines.length,
+    starts: lines.filter(line => line.started).length,
+    substituteAppearances: lines.filter(line => !line.started).length,
+    goals: total('goals'),
+    assists: total('assists'),
+    ownGoals: total('ownGoals'),
+    yellowCards: total('yellowCards'),
+    redCards: total('redCards'),
+    matches: lines
+  };
+};
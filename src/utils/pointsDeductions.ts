@@ -0,0 +1,79 @@
+/**
+ * Points Deductions - Sanctions applied by leagues during a season
+ *
+ * Providers' tables already subtract deductions from `points` but do not say
+ * so, and tables computed from results cannot know about them. Deductions are
+ * listed here per competition and season; computed tables subtract them and
+ * every table is annotated so the deduction and its reason can be shown.
+ */
+
+import { PointsDeduction, Standing, StandingsResponse } from '@/types/football';
+import { getStartYear } from './seasons';
+
+const POINTS_DEDUCTIONS: Record<string, Record<string, PointsDeduction[]>> = {
+  PL: {
+    '2023-2024': [
+      { team: 'Everton', points: 6, reason: 'Breach of profit and sustainability rules (reduced from 10 on appeal)', date: '2023-11-17' },
+      { team: 'Nottingham Forest', points: 4, reason: 'Breach of profit and sustainability rules', date: '2024-03-18' },
+      { team: 'Everton', points: 2, reason: 'Second breach of profit and sustainability rules', date: '2024-04-08' }
+    ]
+  },
+  SA: {
+    '2022-2023': [
+      { team: 'Juventus', points: 10, reason: 'Capital gains from player transfers', date: '2023-05-22' }
+    ]
+  }
+};
+
+const normalizeTeamName = (name: string): string =>
+  name.toLowerCase().replace(/\b(a?fc|cf)\b/g, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Deductions of a competition's season, oldest first
+ */
+export const getPointsDeductions = (competition: string, season?: string): PointsDeduction[] => {
+  if (!season) return [];
+  const seasons = POINTS_DEDUCTIONS[competition] ?? {};
+  const label = Object.keys(seasons).find(key => getStartYear(key) === getStartYear(season));
+  return label ? seasons[label] : [];
+};
+
+/**
+ * Deductions that apply to a team
+ */
+export const getTeamDeductions = (teamName: string, deductions: PointsDeduction[]): PointsDeduction[] => {
+  const name = normalizeTeamName(teamName);
+  return deductions.filter(deduction => normalizeTeamName(deduction.team) === name);
+};
+
+/**
+ * Mark rows with their deductions without changing points
+ * Rows that already carry a deduction, such as computed ones, are left as they are.
+ */
+export const annotateDeductions = (table: Standing[], deductions: PointsDeduction[]): Standing[] => {
+  if (deductions.length === 0) return table;
+
+  return table.map(row => {
+    if (row.deductedPoints) return row;
+    const applied = getTeamDeductions(row.team.name, deductions);
+    if (applied.length === 0) return row;
+    return {
+      ...row,
+      deductedPoints: applied.reduce((total, deduction) => total + deduction.points, 0),
+      deductionReason: applied.map(deduction => deduction.reason).join('; ')
+    };
+  });
+};
+
+/**
+ * Annotate every table of a standings response with the competition's deductions
+ */
+export const annotatePointsDeductions = (data: StandingsResponse, competition: string, season?: string): StandingsResponse => {
+  const deductions = getPointsDeductions(competition, season ?? data.season);
+  if (deductions.length === 0) return data;
+
+  return {
+    ...data,
+    standings: data.standings.map(group => ({ ...group, table: annotateDeductions(group.table, deductions) }))
+  };
+};
@@ -0,0 +1,339 @@
+/**
+ * Prediction Model - Match outcome probabilities from a Poisson goals model
+ *
+ * A Dixon–Coles style model fitted to finished matches:
+ * - Goals follow Poisson distributions with means
+ *   home = c × attack(home) × defense(away) × homeAdvantage and
+ *   away = c × attack(away) × defense(home), where attack and defense are
+ *   relative strengths averaging 1 (defense above 1 concedes more).
+ * - Strengths are fitted by iterating the weighted maximum-likelihood
+ *   equations. Each team starts with `priorGoals` pseudo-goals at the league
+ *   average, so teams with few matches stay close to average.
+ * - Older matches count less: a match's weight halves every `halfLifeDays`.
+ * - Dixon and Coles' correction `rho` adjusts the probabilities of 0-0, 1-0,
+ *   0-1 and 1-1, which independent Poisson goals misjudge; it is chosen by
+ *   maximising the weighted likelihood of those scorelines.
+ *
+ * The backtest walks through a season round by round, fitting the model on
+ * the results known before each round and scoring its predictions.
+ */
+
+import { Match } from '@/types/football';
+import { getTeamKey, isCompletedMatch } from './standingsEngine';
+
+export interface PredictionModelOptions {
+  halfLifeDays?: number;
+  priorGoals?: number;
+  iterations?: number;
+}
+
+export interface TeamStrength {
+  attack: number;
+  defense: number;
+}
+
+export interface FittedModel {
+  strengths: Map<string, TeamStrength>;
+  /** Goals per team per match for two average teams at a neutral venue */
+  baseline: number;
+  homeAdvantage: number;
+  rho: number;
+  matchCount: number;
+}
+
+export interface Scoreline {
+  home: number;
+  away: number;
+  probability: number;
+}
+
+export interface MatchPrediction {
+  homeWin: number;
+  draw: number;
+  awayWin: number;
+  expectedGoals: { home: number; away: number };
+  /** Most likely exact scores, most likely first */
+  scorelines: Scoreline[];
+}
+
+export interface CalibrationBin {
+  /** Bin range of predicted probabilities, e.g. 0.3 to 0.4 */
+  from: number;
+  to: number;
+  predicted: number;
+  observed: number;
+  count: number;
+}
+
+export interface BacktestReport {
+  predictions: number;
+  /** Share of matches whose most likely outcome happened */
+  accuracy: number;
+  /** Mean squared error over home, draw and away, 0 is perfect */
+  brierScore: number;
+  /** Mean negative log probability of the actual outcome */
+  logLoss: number;
+  calibration: CalibrationBin[];
+}
+
+/** Fewest finished matches the model is fitted on */
+export const MIN_MATCHES_TO_FIT = 20;
+
+const MAX_GOALS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_OPTIONS: Required<PredictionModelOptions> = {
+  halfLifeDays: 180,
+  priorGoals: 3,
+  iterations: 60
+};
+
+const poisson = (goals: number, mean: number): number => {
+  let probability = Math.exp(-mean);
+  for (let k = 1; k <= goals; k++) probability *= mean / k;
+  return probability;
+};
+
+/**
+ * Dixon–Coles adjustment for low scores; 1 for every other scoreline
+ */
+const tau = (home: number, away: number, homeMean: number, awayMean: number, rho: number): number => {
+  if (home === 0 && away === 0) return 1 - homeMean * awayMean * rho;
+  if (home === 0 && away === 1) return 1 + homeMean * rho;
+  if (home === 1 && away === 0) return 1 + awayMean * rho;
+  if (home === 1 && away === 1) return 1 - rho;
+  return 1;
+};
+
+interface WeightedResult {
+  home: string;
+  away: string;
+  homeGoals: number;
+  awayGoals: number;
+  weight: number;
+}
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / (values.length || 1);
+
+/**
+ * Fit team strengths to finished matches
+ * Returns null with fewer than MIN_MATCHES_TO_FIT finished matches.
+ * @param referenceDate - Date the weights decay from, defaults to the latest match
+ */
+export const fitPredictionModel = (matches: Match[], options: PredictionModelOptions = {}, referenceDate?: string): FittedModel | null => {
+  const { halfLifeDays, priorGoals, iterations } = { ...DEFAULT_OPTIONS, ...options };
+  const finished = matches.filter(isCompletedMatch);
+  if (finished.length < MIN_MATCHES_TO_FIT) return null;
+
+  const reference = new Date(referenceDate ?? finished.reduce((latest, match) => match.utcDate > latest ? match.utcDate : latest, '')).getTime();
+  const results: WeightedResult[] = finished.map(match => ({
+    home: getTeamKey(match.homeTeam),
+    away: getTeamKey(match.awayTeam),
+    homeGoals: match.score.fullTime.home,
+    awayGoals: match.score.fullTime.away,
+    weight: Math.pow(0.5, Math.max(0, reference - new Date(match.utcDate).getTime()) / DAY_MS / halfLifeDays)
+  }));
+
+  const strengths = new Map<string, TeamStrength>();
+  results.forEach(result => {
+    strengths.set(result.home, { attack: 1, defense: 1 });
+    strengths.set(result.away, { attack: 1, defense: 1 });
+  });
+
+  const totalWeight = results.reduce((sum, result) => sum + result.weight, 0);
+  let baseline = results.reduce((sum, result) => sum + result.weight * (result.homeGoals + result.awayGoals), 0) / (2 * totalWeight);
+  let homeAdvantage = 1;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const scored = new Map<string, number>();
+    const attackExposure = new Map<string, number>();
+    const conceded = new Map<string, number>();
+    const defenseExposure = new Map<string, number>();
+    const add = (map: Map<string, number>, key: string, value: number) => map.set(key, (map.get(key) ?? 0) + value);
+
+    results.forEach(({ home, away, homeGoals, awayGoals, weight }) => {
+      const h = strengths.get(home);
+      const a = strengths.get(away);
+      add(scored, home, weight * homeGoals);
+      add(scored, away, weight * awayGoals);
+      add(attackExposure, home, weight * baseline * a.defense * homeAdvantage);
+      add(attackExposure, away, weight * baseline * h.defense);
+      add(conceded, home, weight * awayGoals);
+      add(conceded, away, weight * homeGoals);
+      add(defenseExposure, home, weight * baseline * a.attack);
+      add(defenseExposure, away, weight * baseline * h.attack * homeAdvantage);
+    });
+
+    strengths.forEach((strength, key) => {
+      strength.attack = (scored.get(key) + priorGoals) / (attackExposure.get(key) + priorGoals);
+      strength.defense = (conceded.get(key) + priorGoals) / (defenseExposure.get(key) + priorGoals);
+    });
+
+    // Keep strengths relative to an average team
+    const attackMean = mean([...strengths.values()].map(strength => strength.attack));
+    const defenseMean = mean([...strengths.values()].map(strength => strength.defense));
+    strengths.forEach(strength => {
+      strength.attack /= attackMean;
+      strength.defense /= defenseMean;
+    });
+
+    let homeGoals = 0, homeExpected = 0, allGoals = 0, allExpected = 0;
+    results.forEach(({ home, away, homeGoals: hg, awayGoals: ag, weight }) => {
+      const h = strengths.get(home);
+      const a = strengths.get(away);
+      const homeMean = h.attack * a.defense * homeAdvantage;
+      const awayMean = a.attack * h.defense;
+      homeGoals += weight * hg;
+      homeExpected += weight * baseline * h.attack * a.defense;
+      allGoals += weight * (hg + ag);
+      allExpected += weight * (homeMean + awayMean);
+    });
+    homeAdvantage = homeExpected > 0 ? homeGoals / homeExpected : 1;
+    baseline = allExpected > 0 ? allGoals / allExpected : baseline;
+  }
+
+  // Choose rho by grid search over the low-scoreline likelihood
+  let rho = 0;
+  let bestLikelihood = -Infinity;
+  for (let candidate = -0.2; candidate <= 0.2001; candidate += 0.01) {
+    let likelihood = 0;
+    let valid = true;
+    for (const { home, away, homeGoals, awayGoals, weight } of results) {
+      if (homeGoals > 1 || awayGoals > 1) continue;
+      const h = strengths.get(home);
+      const a = strengths.get(away);
+      const adjustment = tau(homeGoals, awayGoals, baseline * h.attack * a.defense * homeAdvantage, baseline * a.attack * h.defense, candidate);
+      if (adjustment <= 0) {
+        valid = false;
+        break;
+      }
+      likelihood += weight * Math.log(adjustment);
+    }
+    if (valid && likelihood > bestLikelihood) {
+      bestLikelihood = likelihood;
+      rho = Math.round(candidate * 100) / 100;
+    }
+  }
+
+  return { strengths, baseline, homeAdvantage, rho, matchCount: results.length };
+};
+
+/**
+ * Outcome probabilities, expected goals and likely scores for a fixture
+ * Teams the model has not seen are treated as average.
+ */
+export const predictMatch = (model: FittedModel, match: Match, scorelineCount = 3): MatchPrediction => {
+  const average: TeamStrength = { attack: 1, defense: 1 };
+  const home = model.strengths.get(getTeamKey(match.homeTeam)) ?? average;
+  const away = model.strengths.get(getTeamKey(match.awayTeam)) ?? average;
+  const homeMean = model.baseline * home.attack * away.defense * model.homeAdvantage;
+  const awayMean = model.baseline * away.attack * home.defense;
+
+  const scorelines: Scoreline[] = [];
+  let total = 0;
+  for (let h = 0; h <= MAX_GOALS; h++) {
+    for (let a = 0; a <= MAX_GOALS; a++) {
+      const probability = Math.max(0, tau(h, a, homeMean, awayMean, model.rho) * poisson(h, homeMean) * poisson(a, awayMean));
+      scorelines.push({ home: h, away: a, probability });
+      total += probability;
+    }
+  }
+  scorelines.forEach(scoreline => {
+    scoreline.probability /= total;
+  });
+
+  const sumWhere = (test: (scoreline: Scoreline) => boolean) =>
+    scorelines.filter(test).reduce((sum, scoreline) => sum + scoreline.probability, 0);
+
+  return {
+    homeWin: sumWhere(scoreline => scoreline.home > scoreline.away),
+    draw: sumWhere(scoreline => scoreline.home === scoreline.away),
+    awayWin: sumWhere(scoreline => scoreline.home < scoreline.away),
+    expectedGoals: { home: homeMean, away: awayMean },
+    scorelines: [...scorelines].sort((a, b) => b.probability - a.probability).slice(0, scorelineCount)
+  };
+};
+
+/**
+ * Predictions for every scheduled match, keyed by match id
+ * Empty when there are too few finished matches to fit the model.
+ */
+export const predictFixtures = (matches: Match[], options: PredictionModelOptions = {}): Record<string, MatchPrediction> => {
+  const model = fitPredictionModel(matches, options);
+  if (!model) return {};
+
+  return Object.fromEntries(
+    matches
+      .filter(match => match.status === 'SCHEDULED')
+      .map(match => [match.id, predictMatch(model, match)])
+  );
+};
+
+/**
+ * Score predictions made before each round of a season
+ * Each round is predicted from every earlier result, including `history`
+ * (e.g. the previous season); rounds before the model can be fitted are skipped.
+ */
+export const backtestPredictions = (season: Match[], history: Match[] = [], options: PredictionModelOptions = {}): BacktestReport => {
+  const finished = season.filter(isCompletedMatch);
+  const rounds = new Map<string, Match[]>();
+  finished.forEach(match => {
+    const round = match.matchday !== null ? `md-${match.matchday}` : match.utcDate.slice(0, 10);
+    rounds.set(round, [...(rounds.get(round) ?? []), match]);
+  });
+
+  const roundStart = (round: Match[]) => round.reduce((min, match) => match.utcDate < min ? match.utcDate : min, round[0].utcDate);
+  const ordered = [...rounds.values()].sort((a, b) => roundStart(a).localeCompare(roundStart(b)));
+
+  const scored: { probabilities: [number, number, number]; outcome: 0 | 1 | 2 }[] = [];
+  const known = history.filter(isCompletedMatch);
+
+  ordered.forEach(round => {
+    const start = roundStart(round);
+    const model = fitPredictionModel(known.filter(match => match.utcDate < start), options, start);
+    if (model) {
+      round.forEach(match => {
+        const prediction = predictMatch(model, match);
+        const { home, away } = match.score.fullTime;
+        scored.push({
+          probabilities: [prediction.homeWin, prediction.draw, prediction.awayWin],
+          outcome: home > away ? 0 : home === away ? 1 : 2
+        });
+      });
+    }
+    known.push(...round);
+  });
+
+  const bins: CalibrationBin[] = Array.from({ length: 10 }, (_, index) => ({
+    from: index / 10,
+    to: (index + 1) / 10,
+    predicted: 0,
+    observed: 0,
+    count: 0
+  }));
+
+  let correct = 0, brier = 0, logLoss = 0;
+  scored.forEach(({ probabilities, outcome }) => {
+    if (probabilities.indexOf(Math.max(...probabilities)) === outcome) correct++;
+    probabilities.forEach((probability, index) => {
+      const happened = index === outcome ? 1 : 0;
+      brier += Math.pow(probability - happened, 2);
+      const bin = bins[Math.min(9, Math.floor(probability * 10))];
+      bin.predicted += probability;
+      bin.observed += happened;
+      bin.count++;
+    });
+    logLoss -= Math.log(Math.max(probabilities[outcome], 1e-12));
+  });
+
+  const count = scored.length;
+  return {
+    predictions: count,
+    accuracy: count ? correct / count : 0,
+    brierScore: count ? brier / count : 0,
+    logLoss: count ? logLoss / count : 0,
+    calibration: bins
+      .filter(bin => bin.count > 0)
+      .map(bin => ({ ...bin, predicted: bin.predicted / bin.count, observed: bin.observed / bin.count }))
+  };
+};
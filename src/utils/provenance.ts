@@ -0,0 +1,39 @@
+/**
+ * Data Provenance - Helpers for labelling where data came from
+ *
+ * Every normalized response carries a DataProvenance so views can tell live
+ * data apart from cached, stale or demonstration data.
+ */
+
+import { DataProvenance, DataSource } from '@/types/football';
+
+// Higher rank = less trustworthy; combined responses report the weakest source
+const SOURCE_RANK: Record<DataSource, number> = {
+  live: 0,
+  cached: 1,
+  stale: 2,
+  mock: 3
+};
+
+export const createProvenance = (source: DataSource, provider: string, fetchedAt: number = Date.now(), notice?: string): DataProvenance => ({
+  source,
+  provider,
+  fetchedAt: new Date(fetchedAt).toISOString(),
+  ...(notice ? { notice } : {})
+});
+
+/**
+ * Combine the provenance of several requests that fed one response
+ * Keeps the least trustworthy source, the oldest timestamp and the first notice
+ */
+export const mergeProvenance = (...items: Array<DataProvenance | undefined>): DataProvenance | undefined => {
+  const present = items.filter((item): item is DataProvenance => !!item);
+  if (present.length === 0) return undefined;
+
+  return present.reduce((merged, item) => ({
+    source: SOURCE_RANK[item.source] > SOURCE_RANK[merged.source] ? item.source : merged.source,
+    provider: merged.provider,
+    fetchedAt: item.fetchedAt < merged.fetchedAt ? item.fetchedAt : merged.fetchedAt,
+    ...(merged.notice || item.notice ? { notice: merged.notice || item.notice } : {})
+  }));
+};
@@ -0,0 +1,22 @@
+// Football Data Provider Configuration
+export const providerConfig = {
+  provider: import.meta.env.VITE_DATA_PROVIDER || 'thesportsdb',
+  allowMockData: import.meta.env.VITE_ALLOW_MOCK_DATA !== 'false', // Default for the demo data fallback setting
+  theSportsDb: {
+    baseURL: import.meta.env.VITE_THESPORTSDB_BASE_URL || 'https://www.thesportsdb.com/api/v1/json',
+    apiKey: import.meta.env.VITE_THESPORTSDB_API_KEY || '3', // Public test key for TheSportsDB
+  },
+  footballData: {
+    baseURL: import.meta.env.VITE_FOOTBALL_DATA_BASE_URL || 'https://api.football-data.org/v4',
+    apiKey: import.meta.env.VITE_FOOTBALL_DATA_API_KEY || '', // Sent as the X-Auth-Token header
+  },
+};
+
+// Provider Setup Instructions:
+// 1. Pick the data source with VITE_DATA_PROVIDER (thesportsdb | football-data)
+// 2. Add the matching credentials to your .env file:
+//    VITE_DATA_PROVIDER=thesportsdb
+//    VITE_THESPORTSDB_API_KEY=your_api_key
+//    VITE_FOOTBALL_DATA_API_KEY=your_token (register at https://www.football-data.org/client/register)
+// 3. Set VITE_ALLOW_MOCK_DATA=false to show errors instead of demo data by default
+// 4. New adapters are registered in src/utils/providers/index.ts
@@ -0,0 +1,84 @@
+/**
+ * DataProvider Interface - Football data source contract
+ *
+ * Every football data source (TheSportsDB, football-data.org, internal feeds)
+ * is wrapped in an adapter implementing this interface. Adapters translate the
+ * provider's own payloads into the normalized types from `src/types/football.ts`,
+ * so pages and tabs never depend on provider field names.
+ */
+
+import {
+  Competition,
+  DataProvenance,
+  EventStatsResponse,
+  LineupResponse,
+  MatchesResponse,
+  MatchResponse,
+  PlayerResponse,
+  PlayersResponse,
+  SeasonsResponse,
+  StandingsResponse,
+  TeamRef,
+  TeamResponse,
+  TeamsResponse,
+  TimelineResponse,
+  TopScorersResponse
+} from '@/types/football';
+
+export interface ProviderRequestOptions {
+  headers?: Record<string, string>;
+  /** How long the response stays fresh in the cache, see CACHE_TTL */
+  ttl?: number;
+  /** Cancels the request when the caller no longer needs it */
+  signal?: AbortSignal;
+}
+
+/**
+ * Raw payload returned by the transport, labelled with how it was obtained.
+ * Adapters copy the provenance onto the normalized response they build.
+ */
+export interface ProviderResponse<T = unknown> {
+  data: T;
+  provenance: DataProvenance;
+}
+
+/**
+ * HTTP transport handed to adapters by FootballAPI.
+ * Adapters build provider URLs, headers and TTLs; FootballAPI owns caching.
+ */
+export type ProviderRequest = (url: string, options?: ProviderRequestOptions) => Promise<ProviderResponse>;
+
+/**
+ * Every method takes an optional AbortSignal as its last argument and must
+ * pass it to the transport so cancelled loads stop their HTTP requests.
+ */
+export interface DataProvider {
+  /** Identifier used in configuration, e.g. `thesportsdb` */
+  readonly id: string;
+  /** Human readable name shown in notifications */
+  readonly name: string;
+
+  fetchStandings(competition: string, season?: string, signal?: AbortSignal): Promise<StandingsResponse>;
+  /** The competition's upcoming and live matches */
+  fetchMatches(competition: string, season?: string, signal?: AbortSignal): Promise<MatchesResponse>;
+  fetchCompetitionMatches(competition: string, season?: string, signal?: AbortSignal): Promise<MatchesResponse>;
+  fetchTeams(competition: string, season?: string, signal?: AbortSignal): Promise<TeamsResponse>;
+  /** A single team with its squad */
+  fetchTeam(teamId: string, signal?: AbortSignal): Promise<TeamResponse>;
+  /** The team's latest results and next fixtures, across competitions */
+  fetchTeamMatches(teamId: string, signal?: AbortSignal): Promise<MatchesResponse>;
+  /** Past meetings of two teams across seasons and competitions, in no particular order */
+  fetchHeadToHead(teamA: TeamRef, teamB: TeamRef, signal?: AbortSignal): Promise<MatchesResponse>;
+  /** A single player with club history and honours where the provider has them */
+  fetchPlayer(playerId: string, signal?: AbortSignal): Promise<PlayerResponse>;
+  /** Players whose name matches the query */
+  searchPlayers(query: string, signal?: AbortSignal): Promise<PlayersResponse>;
+  fetchMatch(eventId: string, signal?: AbortSignal): Promise<MatchResponse>;
+  fetchLineup(eventId: string, signal?: AbortSignal): Promise<LineupResponse>;
+  fetchEventStats(eventId: string, signal?: AbortSignal): Promise<EventStatsResponse>;
+  fetchTimeline(eventId: string, signal?: AbortSignal): Promise<TimelineResponse>;
+  fetchTopScorers(competition: string, season?: string, signal?: AbortSignal): Promise<TopScorersResponse>;
+  fetchSeasons(competition: string, signal?: AbortSignal): Promise<SeasonsResponse>;
+  /** Competitions the provider offers, merged into the competition catalog */
+  fetchCompetitions(signal?: AbortSignal): Promise<Competition[]>;
+}
@@ -0,0 +1,516 @@
+/**
+ * FootballDataProvider Class - football-data.org v4 adapter
+ *
+ * Implements the DataProvider contract on top of the football-data.org v4 API.
+ * The normalized football types were modeled on this API, so most payloads map
+ * across directly; the adapter mainly converts ids to strings, translates
+ * season labels ("2024-2025" <-> 2024) and collapses match statuses. Raw
+ * payloads are checked against `footballDataSchemas.ts` before mapping.
+ *
+ * API Used: football-data.org (https://www.football-data.org/documentation/api)
+ */
+
+import { z } from 'zod';
+import {
+  Competition,
+  CompetitionFormat,
+  DataProvenance,
+  EventStatsResponse,
+  LineupResponse,
+  Match,
+  MatchesResponse,
+  MatchResponse,
+  Player,
+  PlayerResponse,
+  PlayersResponse,
+  SeasonsResponse,
+  SquadPlayer,
+  Standing,
+  StandingsResponse,
+  Team,
+  TeamRef,
+  TeamResponse,
+  TeamsResponse,
+  TimelineResponse,
+  TopScorersResponse
+} from '@/types/football';
+import { CACHE_TTL, getSeasonTTL } from '../cachePolicy';
+import { competitionCatalog } from '../competitionCatalog';
+import { mergeProvenance } from '../provenance';
+import { isCalendarYearSeason, toSeasons } from '../seasons';
+import { listEnvelope, validatePayload, validateRows } from '../validation';
+import { DataProvider, ProviderRequest, ProviderResponse } from './dataProvider';
+import {
+  RawMatch,
+  RawMatchTeam,
+  RawSeason,
+  RawSquadPlayer,
+  RawStandingRow,
+  RawTeam,
+  rawCompetitionSchema,
+  rawMatchSchema,
+  rawPersonSchema,
+  rawScorerSchema,
+  rawSeasonSchema,
+  rawStandingRowSchema,
+  rawStandingsSchema,
+  rawTeamSchema
+} from './footballDataSchemas';
+
+// Most meetings the head2head resource returns
+const HEAD_TO_HEAD_LIMIT = 50;
+
+export interface FootballDataConfig {
+  baseURL: string;
+  apiKey: string;
+}
+
+class FootballDataProvider implements DataProvider {
+  public readonly id = 'football-data';
+  public readonly name = 'football-data.org';
+  public baseURL: string;
+  public apiKey: string;
+  private request: ProviderRequest;
+
+  /**
+   * Constructor - Initialize the adapter with its configuration and transport
+   * @param config - Base URL and X-Auth-Token for football-data.org
+   * @param request - HTTP transport supplied by FootballAPI
+   */
+  constructor(config: FootballDataConfig, request: ProviderRequest) {
+    this.baseURL = config.baseURL;
+    this.apiKey = config.apiKey;
+    this.request = request;
+  }
+
+  /**
+   * Fetch a football-data.org endpoint with the auth token attached
+   * There is no demo data for this provider, so failures always propagate
+   */
+  private async fetchData(endpoint: string, ttl: number = CACHE_TTL.standard, signal?: AbortSignal): Promise<ProviderResponse> {
+    const headers: Record<string, string> = this.apiKey ? { 'X-Auth-Token': this.apiKey } : {};
+    return this.request(`${this.baseURL}${endpoint}`, { headers, ttl, signal });
+  }
+
+  /**
+   * Fetch a single resource and validate it as a whole
+   */
+  private async fetchPayload<T>(endpoint: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, ttl: number, signal?: AbortSignal): Promise<{ data: T; provenance: DataProvenance }> {
+    const { data, provenance } = await this.fetchData(endpoint, ttl, signal);
+    return { data: validatePayload(schema, data, this.name, endpoint), provenance };
+  }
+
+  /**
+   * Fetch an endpoint and validate every row of its list payload; a missing list is empty
+   */
+  private async fetchRows<T>(endpoint: string, key: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, ttl: number, signal?: AbortSignal): Promise<{ rows: T[]; provenance: DataProvenance }> {
+    const { data, provenance } = await this.fetchData(endpoint, ttl, signal);
+    const envelope = validatePayload(listEnvelope(key), data, this.name, endpoint);
+    const rows = envelope[key];
+    return { rows: Array.isArray(rows) ? validateRows(schema, rows, this.name, endpoint) : [], provenance };
+  }
+
+  /**
+   * Convert a season label ("2024-2025" or "2024") to the API's start year
+   */
+  private toSeasonYear(season?: string): string | undefined {
+    if (!season) return undefined;
+    return season.split('-')[0];
+  }
+
+  /**
+   * Convert a season's start/end dates into the app's season label
+   */
+  private toSeasonLabel(season: RawSeason): string {
+    const startYear = season.startDate.substring(0, 4);
+    const endYear = season.endDate.substring(0, 4);
+    return startYear === endYear ? startYear : `${startYear}-${endYear}`;
+  }
+
+  private withSeason(endpoint: string, season?: string): string {
+    const seasonYear = this.toSeasonYear(season);
+    if (!seasonYear) return endpoint;
+    return `${endpoint}${endpoint.includes('?') ? '&' : '?'}season=${seasonYear}`;
+  }
+
+  /**
+   * A side of a match; one not yet decided is shown as TBD
+   */
+  private mapMatchTeam(team: RawMatchTeam): Team {
+    if (team.id == null || !team.name) {
+      return { id: '', name: 'TBD', shortName: 'TBD', tla: 'TBD', crest: '' };
+    }
+    return this.mapTeam({ ...team, id: team.id, name: team.name });
+  }
+
+  private mapTeam(team: RawTeam): Team {
+    return {
+      id: String(team.id),
+      name: team.name,
+      shortName: team.shortName || team.name,
+      tla: team.tla || team.name.substring(0, 3).toUpperCase(),
+      crest: team.crest || '',
+      founded: team.founded ?? null,
+      venue: team.venue || undefined,
+      website: team.website || undefined,
+      location: team.address || team.area?.name || undefined,
+      squad: team.squad ? team.squad.map(player => this.mapSquadPlayer(player)) : undefined
+    };
+  }
+
+  private mapSquadPlayer(player: RawSquadPlayer): SquadPlayer {
+    return {
+      id: String(player.id),
+      name: player.name,
+      position: player.position || player.section || 'Unknown',
+      dateOfBirth: player.dateOfBirth || undefined,
+      nationality: player.nationality || undefined,
+      shirtNumber: player.shirtNumber ?? null
+    };
+  }
+
+  /**
+   * Collapse v4 statuses; postponed, suspended and cancelled matches keep
+   * their own status so predictions and simulations do not count them as remaining
+   */
+  private mapStatus(status: string): Match['status'] {
+    switch (status) {
+      case 'FINISHED':
+      case 'AWARDED':
+        return 'FINISHED';
+      case 'IN_PLAY':
+      case 'PAUSED':
+        return 'IN_PLAY';
+      case 'POSTPONED':
+      case 'SUSPENDED':
+      case 'CANCELLED':
+        return status;
+      default:
+        // SCHEDULED and TIMED (kick-off time confirmed)
+        return 'SCHEDULED';
+    }
+  }
+
+  private mapMatch(match: RawMatch, season?: string): Match {
+    return {
+      id: String(match.id),
+      homeTeam: this.mapMatchTeam(match.homeTeam),
+      awayTeam: this.mapMatchTeam(match.awayTeam),
+      utcDate: match.utcDate,
+      status: this.mapStatus(match.status),
+      score: {
+        fullTime: {
+          home: match.score?.fullTime?.home ?? null,
+          away: match.score?.fullTime?.away ?? null
+        },
+        halfTime: {
+          home: match.score?.halfTime?.home ?? null,
+          away: match.score?.halfTime?.away ?? null
+        }
+      },
+      competition: { name: match.competition?.name || '' },
+      season: match.season ? this.toSeasonLabel(match.season) : season || '',
+      matchday: match.matchday ?? null,
+      venue: match.venue || undefined,
+      referee: (match.referees || []).find(referee => referee.type === 'REFEREE')?.name || undefined,
+      attendance: match.attendance ?? null
+    };
+  }
+
+  /**
+   * Map a list of matches, leaving out knockout fixtures whose teams are not decided yet
+   */
+  private mapMatches(matches: RawMatch[], season?: string): Match[] {
+    return matches
+      .filter(match => match.homeTeam.id != null && match.awayTeam.id != null)
+      .map(match => this.mapMatch(match, season));
+  }
+
+  private mapStanding(row: RawStandingRow): Standing {
+    return {
+      position: row.position,
+      team: this.mapTeam(row.team),
+      playedGames: row.playedGames,
+      won: row.won,
+      draw: row.draw,
+      lost: row.lost,
+      points: row.points,
+      goalsFor: row.goalsFor,
+      goalsAgainst: row.goalsAgainst,
+      goalDifference: row.goalDifference,
+      form: row.form ? row.form.replace(/,/g, '') : 'N/A'
+    };
+  }
+
+  /**
+   * List the competitions available to the configured token
+   */
+  async fetchCompetitions(signal?: AbortSignal): Promise<Competition[]> {
+    const { rows } = await this.fetchRows('/competitions', 'competitions', rawCompetitionSchema, CACHE_TTL.static, signal);
+    return rows.map(competition => ({
+      code: competition.code,
+      name: competition.name,
+      country: competition.area?.name || '',
+      format: this.mapFormat(competition.type, competition.code),
+      teamCount: null,
+      logo: competition.emblem || '',
+      calendarYear: competition.currentSeason ? isCalendarYearSeason(this.toSeasonLabel(competition.currentSeason)) : undefined
+    }));
+  }
+
+  /**
+   * The API only distinguishes LEAGUE and CUP; continental and world
+   * tournaments are CUPs with a group or league phase
+   */
+  private mapFormat(type: string, code: string): CompetitionFormat {
+    if (type !== 'CUP') return 'league';
+    return ['CL', 'EL', 'EC', 'WC', 'CLI'].includes(code) ? 'group-knockout' : 'cup';
+  }
+
+  /**
+   * Fetch TOTAL, HOME and AWAY tables for a competition
+   */
+  async fetchStandings(competition = 'PL', season?: string, signal?: AbortSignal): Promise<StandingsResponse> {
+    const endpoint = this.withSeason(`/competitions/${competition}/standings`, season);
+    const { data, provenance } = await this.fetchPayload(endpoint, rawStandingsSchema, getSeasonTTL(season), signal);
+
+    return {
+      standings: (data.standings || []).map(group => ({
+        stage: group.stage,
+        type: group.type,
+        table: validateRows(rawStandingRowSchema, group.table || [], this.name, endpoint).map(row => this.mapStanding(row))
+      })),
+      competition: {
+        name: data.competition?.name || competition,
+        code: data.competition?.code || competition
+      },
+      season: data.season ? this.toSeasonLabel(data.season) : season || '',
+      provenance
+    };
+  }
+
+  async fetchMatches(competition = 'PL', season?: string, signal?: AbortSignal): Promise<MatchesResponse> {
+    // The competition's matches for today, including live ones
+    const { rows, provenance } = await this.fetchRows(`/matches?competitions=${competition}`, 'matches', rawMatchSchema, CACHE_TTL.live, signal);
+    const matches = this.mapMatches(rows, season);
+    return { matches, count: matches.length, provenance };
+  }
+
+  async fetchCompetitionMatches(competition = 'PL', season?: string, signal?: AbortSignal): Promise<MatchesResponse> {
+    const endpoint = this.withSeason(`/competitions/${competition}/matches`, season);
+    const { rows, provenance } = await this.fetchRows(endpoint, 'matches', rawMatchSchema, getSeasonTTL(season), signal);
+    const matches = this.mapMatches(rows, season);
+    return { matches, count: matches.length, provenance };
+  }
+
+  /**
+   * Fetch teams for a competition; football-data.org includes squads inline
+   */
+  async fetchTeams(competition = 'PL', season?: string, signal?: AbortSignal): Promise<TeamsResponse> {
+    const endpoint = this.withSeason(`/competitions/${competition}/teams`, season);
+    const { rows, provenance } = await this.fetchRows(endpoint, 'teams', rawTeamSchema, CACHE_TTL.static, signal);
+    const teams = rows.map(team => this.mapTeam(team));
+    return { teams, count: teams.length, provenance };
+  }
+
+  /**
+   * Fetch a team with its squad; its running league maps to a catalog competition
+   */
+  async fetchTeam(teamId: string, signal?: AbortSignal): Promise<TeamResponse> {
+    const { data, provenance } = await this.fetchPayload(`/teams/${teamId}`, rawTeamSchema, CACHE_TTL.static, signal);
+    const league = (data.runningCompetitions || []).find(competition => competition.type === 'LEAGUE' && competitionCatalog.get(competition.code));
+    return { team: this.mapTeam(data), competition: league?.code, provenance };
+  }
+
+  /**
+   * The team's matches of the current season; pages pick the latest and next ones
+   */
+  async fetchTeamMatches(teamId: string, signal?: AbortSignal): Promise<MatchesResponse> {
+    const { rows, provenance } = await this.fetchRows(`/teams/${teamId}/matches`, 'matches', rawMatchSchema, CACHE_TTL.standard, signal);
+    const matches = this.mapMatches(rows);
+    return { matches, count: matches.length, provenance };
+  }
+
+  /**
+   * football-data.org lists head-to-head records per match, so a meeting of
+   * the two teams in the current season anchors the lookup
+   */
+  async fetchHeadToHead(teamA: TeamRef, teamB: TeamRef, signal?: AbortSignal): Promise<MatchesResponse> {
+    const { rows: teamMatches, provenance } = await this.fetchRows(`/teams/${teamA.id}/matches`, 'matches', rawMatchSchema, CACHE_TTL.standard, signal);
+    const meeting = teamMatches.find(match =>
+      String(match.homeTeam?.id) === teamB.id || String(match.awayTeam?.id) === teamB.id
+    );
+    if (!meeting) {
+      return {
+        matches: [],
+        count: 0,
+        provenance: { ...provenance, notice: `${this.name} only has head-to-head records for teams that meet this season.` }
+      };
+    }
+
+    const { rows, provenance: headToHeadProvenance } = await this.fetchRows(
+      `/matches/${meeting.id}/head2head?limit=${HEAD_TO_HEAD_LIMIT}`, 'matches', rawMatchSchema, CACHE_TTL.standard, signal
+    );
+    const previous = rows.filter(match => match.id !== meeting.id);
+    const matches = this.mapMatches([meeting, ...previous]);
+    return { matches, count: matches.length, provenance: mergeProvenance(provenance, headToHeadProvenance) };
+  }
+
+  /**
+   * Fetch a person; football-data.org has no club history or honours
+   */
+  async fetchPlayer(playerId: string, signal?: AbortSignal): Promise<PlayerResponse> {
+    const { data, provenance } = await this.fetchPayload(`/persons/${playerId}`, rawPersonSchema, CACHE_TTL.static, signal);
+
+    const team = data.currentTeam;
+    const player: Player = {
+      ...this.mapSquadPlayer(data),
+      currentTeam: team?.id && team.name ? { id: String(team.id), name: team.name, crest: team.crest || undefined } : undefined,
+      formerTeams: [],
+      honours: []
+    };
+    return { player, provenance };
+  }
+
+  /**
+   * football-data.org has no player search, so the squads of the default
+   * competition's teams are searched instead
+   */
+  async searchPlayers(query: string, signal?: AbortSignal): Promise<PlayersResponse> {
+    const competition = competitionCatalog.getDefaultCode();
+    const { rows, provenance } = await this.fetchRows(`/competitions/${competition}/teams`, 'teams', rawTeamSchema, CACHE_TTL.static, signal);
+    const needle = query.trim().toLowerCase();
+    const players: Player[] = [];
+
+    rows.forEach(team => {
+      (team.squad || [])
+        .filter(player => player.name.toLowerCase().includes(needle))
+        .forEach(player => players.push({
+          ...this.mapSquadPlayer(player),
+          currentTeam: { id: String(team.id), name: team.name, crest: team.crest || undefined }
+        }));
+    });
+    return { players, count: players.length, provenance };
+  }
+
+  /**
+   * Lineups, statistics and timeline all come from the single match resource
+   */
+  private async fetchMatchDetails(eventId: string, signal?: AbortSignal): Promise<{ data: RawMatch; provenance: DataProvenance }> {
+    return this.fetchPayload(`/matches/${eventId}`, rawMatchSchema, CACHE_TTL.standard, signal);
+  }
+
+  async fetchMatch(eventId: string, signal?: AbortSignal): Promise<MatchResponse> {
+    const { data: match, provenance } = await this.fetchMatchDetails(eventId, signal);
+    return { match: this.mapMatch(match), provenance };
+  }
+
+  async fetchLineup(eventId: string, signal?: AbortSignal): Promise<LineupResponse> {
+    const { data: match, provenance } = await this.fetchMatchDetails(eventId, signal);
+
+    const mapPlayer = (team: RawMatch['homeTeam'], substitute: boolean) =>
+      (player: NonNullable<RawMatch['homeTeam']['lineup']>[number]) => ({
+        idPlayer: String(player.id),
+        strPlayer: player.name,
+        strPosition: player.position || '',
+        strFormation: team.formation || '',
+        idTeam: String(team.id),
+        substitute
+      });
+    const lineup = [match.homeTeam, match.awayTeam].flatMap(team => [
+      ...(team.lineup || []).map(mapPlayer(team, false)),
+      ...(team.bench || []).map(mapPlayer(team, true))
+    ]);
+
+    return { lineup, provenance };
+  }
+
+  async fetchEventStats(eventId: string, signal?: AbortSignal): Promise<EventStatsResponse> {
+    const { data: match, provenance } = await this.fetchMatchDetails(eventId, signal);
+    const homeStats = match.homeTeam.statistics || {};
+    const awayStats = match.awayTeam.statistics || {};
+
+    const eventstats = Object.keys(homeStats).map((key) => ({
+      strStat: key.split('_').map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(' '),
+      intHome: String(homeStats[key] ?? 0),
+      intAway: String(awayStats[key] ?? 0)
+    }));
+
+    return { eventstats, provenance };
+  }
+
+  async fetchTimeline(eventId: string, signal?: AbortSignal): Promise<TimelineResponse> {
+    const { data: match, provenance } = await this.fetchMatchDetails(eventId, signal);
+
+    const goals = (match.goals || []).map((goal, index) => ({
+      idTimeline: `${eventId}-goal-${index}`,
+      idEvent: eventId,
+      strTimeline: 'Goal',
+      strTimelineDetail: goal.type === 'OWN' ? 'Own Goal' : goal.type === 'PENALTY' ? 'Penalty' : 'Normal Goal',
+      strTeam: goal.team?.name || '',
+      strPlayer: goal.scorer?.name || '',
+      strAssist: goal.assist?.name || '',
+      strTimelineDescription: `${goal.scorer?.name || 'Unknown'} (${goal.team?.name || ''})`,
+      intTime: String(goal.minute ?? '')
+    }));
+
+    const bookings = (match.bookings || []).map((booking, index) => ({
+      idTimeline: `${eventId}-card-${index}`,
+      idEvent: eventId,
+      strTimeline: 'Card',
+      strTimelineDetail: booking.card === 'RED' || booking.card === 'YELLOW_RED' ? 'Red Card' : 'Yellow Card',
+      strTeam: booking.team?.name || '',
+      strPlayer: booking.player?.name || '',
+      strAssist: '',
+      strTimelineDescription: `${booking.player?.name || 'Unknown'} (${booking.team?.name || ''})`,
+      intTime: String(booking.minute ?? '')
+    }));
+
+    const substitutions = (match.substitutions || []).map((substitution, index) => ({
+      idTimeline: `${eventId}-subst-${index}`,
+      idEvent: eventId,
+      strTimeline: 'subst',
+      strTimelineDetail: 'Substitution',
+      strTeam: substitution.team?.name || '',
+      strPlayer: substitution.playerIn?.name || '',
+      strAssist: substitution.playerOut?.name || '',
+      strTimelineDescription: `${substitution.playerIn?.name || 'Unknown'} replaces ${substitution.playerOut?.name || 'Unknown'}`,
+      intTime: String(substitution.minute ?? '')
+    }));
+
+    const timeline = [...goals, ...bookings, ...substitutions]
+      .sort((a, b) => (parseInt(a.intTime) || 0) - (parseInt(b.intTime) || 0));
+
+    return { timeline, provenance };
+  }
+
+  async fetchTopScorers(competition = 'PL', season?: string, signal?: AbortSignal): Promise<TopScorersResponse> {
+    const endpoint = this.withSeason(`/competitions/${competition}/scorers?limit=20`, season);
+    const { rows, provenance } = await this.fetchRows(endpoint, 'scorers', rawScorerSchema, getSeasonTTL(season), signal);
+
+    const scorers = rows.map(scorer => ({
+      name: scorer.player.name,
+      goals: scorer.goals || 0,
+      team: scorer.team?.name || '',
+      nationality: scorer.player.nationality || '',
+      playerId: scorer.player.id ? String(scorer.player.id) : undefined,
+      assists: scorer.assists ?? null,
+      playedMatches: scorer.playedMatches ?? null
+    }));
+
+    return { scorers, provenance };
+  }
+
+  /**
+   * Seasons of a competition; calendar-year seasons map to a single year
+   */
+  async fetchSeasons(competition: string, signal?: AbortSignal): Promise<SeasonsResponse> {
+    const endpoint = `/competitions/${competition}`;
+    const { data, provenance } = await this.fetchPayload(endpoint, rawCompetitionSchema, CACHE_TTL.static, signal);
+    const labels = validateRows(rawSeasonSchema, data.seasons || [], this.name, endpoint).map(season => this.toSeasonLabel(season));
+    const current = data.currentSeason ? this.toSeasonLabel(data.currentSeason) : undefined;
+    return { seasons: toSeasons(labels, current), provenance };
+  }
+}
+
+export default FootballDataProvider;
@@ -0,0 +1,166 @@
+/**
+ * football-data.org Schemas - Raw payload validation
+ *
+ * zod schemas for the raw football-data.org v4 responses. Ids arrive as
+ * numbers and are converted to strings by the adapter. Sections that only
+ * some plans include (lineups, statistics, bookings) are optional, so a
+ * missing section is an empty list rather than an invalid payload.
+ */
+
+import { z } from 'zod';
+
+const optionalNumber = z.number().nullish();
+
+const rawNamedSchema = z.object({
+  id: optionalNumber,
+  name: z.string().nullish()
+});
+
+export const rawSeasonSchema = z.object({
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date')
+});
+
+export const rawSquadPlayerSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1),
+  position: z.string().nullish(),
+  section: z.string().nullish(),
+  dateOfBirth: z.string().nullish(),
+  nationality: z.string().nullish(),
+  shirtNumber: optionalNumber
+});
+
+export const rawTeamSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1),
+  shortName: z.string().nullish(),
+  tla: z.string().nullish(),
+  crest: z.string().nullish(),
+  founded: optionalNumber,
+  venue: z.string().nullish(),
+  website: z.string().nullish(),
+  address: z.string().nullish(),
+  area: rawNamedSchema.nullish(),
+  squad: z.array(rawSquadPlayerSchema).nullish(),
+  runningCompetitions: z.array(z.object({ code: z.string().nullish(), type: z.string().nullish() })).nullish()
+});
+
+const rawLineupPlayerSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1),
+  position: z.string().nullish()
+});
+
+// Teams inside a match carry the lineups and statistics of that match;
+// knockout fixtures list a side with a null id and name until it is decided
+const rawMatchTeamSchema = rawTeamSchema.extend({
+  id: optionalNumber,
+  name: z.string().nullish(),
+  formation: z.string().nullish(),
+  lineup: z.array(rawLineupPlayerSchema).nullish(),
+  bench: z.array(rawLineupPlayerSchema).nullish(),
+  statistics: z.record(z.union([z.number(), z.string()]).nullable()).nullish()
+});
+
+const rawScoreLineSchema = z.object({
+  home: optionalNumber,
+  away: optionalNumber
+});
+
+export const rawMatchSchema = z.object({
+  id: z.number(),
+  utcDate: z.string().min(1),
+  status: z.string().min(1),
+  matchday: optionalNumber,
+  homeTeam: rawMatchTeamSchema,
+  awayTeam: rawMatchTeamSchema,
+  score: z.object({
+    fullTime: rawScoreLineSchema.nullish(),
+    halfTime: rawScoreLineSchema.nullish()
+  }).nullish(),
+  competition: z.object({ name: z.string().nullish() }).nullish(),
+  season: rawSeasonSchema.nullish(),
+  venue: z.string().nullish(),
+  attendance: optionalNumber,
+  referees: z.array(z.object({ name: z.string().nullish(), type: z.string().nullish() })).nullish(),
+  goals: z.array(z.object({
+    minute: optionalNumber,
+    type: z.string().nullish(),
+    team: rawNamedSchema.nullish(),
+    scorer: rawNamedSchema.nullish(),
+    assist: rawNamedSchema.nullish()
+  })).nullish(),
+  bookings: z.array(z.object({
+    minute: optionalNumber,
+    card: z.string().nullish(),
+    team: rawNamedSchema.nullish(),
+    player: rawNamedSchema.nullish()
+  })).nullish(),
+  substitutions: z.array(z.object({
+    minute: optionalNumber,
+    team: rawNamedSchema.nullish(),
+    playerIn: rawNamedSchema.nullish(),
+    playerOut: rawNamedSchema.nullish()
+  })).nullish()
+});
+
+export const rawStandingRowSchema = z.object({
+  position: z.number(),
+  team: rawTeamSchema,
+  playedGames: z.number(),
+  won: z.number(),
+  draw: z.number(),
+  lost: z.number(),
+  points: z.number(),
+  goalsFor: z.number(),
+  goalsAgainst: z.number(),
+  goalDifference: z.number(),
+  form: z.string().nullish()
+});
+
+/**
+ * Table rows are validated one by one, like every other list
+ */
+export const rawStandingsSchema = z.object({
+  competition: z.object({ name: z.string().nullish(), code: z.string().nullish() }).nullish(),
+  season: rawSeasonSchema.nullish(),
+  standings: z.array(z.object({
+    stage: z.string(),
+    type: z.string(),
+    table: z.array(z.unknown()).nullish()
+  })).nullish()
+});
+
+export const rawCompetitionSchema = z.object({
+  code: z.string().min(1),
+  name: z.string().min(1),
+  type: z.string().nullish(),
+  emblem: z.string().nullish(),
+  area: rawNamedSchema.nullish(),
+  currentSeason: rawSeasonSchema.nullish(),
+  seasons: z.array(z.unknown()).nullish()
+});
+
+export const rawScorerSchema = z.object({
+  player: z.object({
+    id: optionalNumber,
+    name: z.string().min(1),
+    nationality: z.string().nullish()
+  }),
+  team: rawNamedSchema.nullish(),
+  goals: optionalNumber,
+  assists: optionalNumber,
+  playedMatches: optionalNumber
+});
+
+export const rawPersonSchema = rawSquadPlayerSchema.extend({
+  currentTeam: rawNamedSchema.extend({ crest: z.string().nullish() }).nullish()
+});
+
+export type RawSeason = z.infer<typeof rawSeasonSchema>;
+export type RawSquadPlayer = z.infer<typeof rawSquadPlayerSchema>;
+export type RawTeam = z.infer<typeof rawTeamSchema>;
+export type RawMatch = z.infer<typeof rawMatchSchema>;
+export type RawMatchTeam = z.infer<typeof rawMatchTeamSchema>;
+export type RawStandingRow = z.infer<typeof rawStandingRowSchema>;
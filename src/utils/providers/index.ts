@@ -0,0 +1,37 @@
+/**
+ * Data Provider Registry
+ *
+ * Maps provider ids from configuration to adapter factories. Adding a new
+ * data source means implementing DataProvider and registering it here.
+ */
+
+import { providerConfig } from '../providerConfig';
+import { DataProvider, ProviderRequest } from './dataProvider';
+import TheSportsDBProvider from './theSportsDbProvider';
+import FootballDataProvider from './footballDataProvider';
+
+type ProviderFactory = (request: ProviderRequest) => DataProvider;
+
+const providerFactories: { [key: string]: ProviderFactory } = {
+  'thesportsdb': (request) => new TheSportsDBProvider(providerConfig.theSportsDb, request),
+  'football-data': (request) => new FootballDataProvider(providerConfig.footballData, request),
+};
+
+/**
+ * Create the adapter for a provider id, falling back to TheSportsDB
+ * when the configured id is unknown
+ */
+export const createDataProvider = (providerId: string, request: ProviderRequest): DataProvider => {
+  const factory = providerFactories[providerId];
+
+  if (!factory) {
+    console.warn(`Unknown data provider "${providerId}", falling back to TheSportsDB`);
+    return providerFactories['thesportsdb'](request);
+  }
+
+  return factory(request);
+};
+
+export const getAvailableProviders = (): string[] => Object.keys(providerFactories);
+
+export type { DataProvider, ProviderRequest, ProviderRequestOptions, ProviderResponse } from './dataProvider';
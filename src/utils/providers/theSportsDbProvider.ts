@@ -0,0 +1,728 @@
+/**
+ * TheSportsDBProvider Class - TheSportsDB adapter
+ *
+ * Implements the DataProvider contract on top of TheSportsDB v1 JSON API.
+ * All `str*`/`int*` field names and league ids stay inside this adapter;
+ * callers only ever see the normalized football types.
+ *
+ * API Used: TheSportsDB (https://www.thesportsdb.com/api.php)
+ */
+
+import { z } from 'zod';
+import {
+  Competition,
+  CompetitionFormat,
+  DataProvenance,
+  EventStatsResponse,
+  LineupResponse,
+  Match,
+  MatchesResponse,
+  MatchResponse,
+  Player,
+  PlayerResponse,
+  PlayersResponse,
+  SeasonsResponse,
+  SquadPlayer,
+  Standing,
+  StandingsResponse,
+  Team,
+  TeamRef,
+  TeamResponse,
+  TeamsResponse,
+  TimelineResponse,
+  TopScorersResponse
+} from '@/types/football';
+import { listEnvelope, validatePayload, validateRows } from '../validation';
+import { CACHE_TTL, getSeasonTTL } from '../cachePolicy';
+import { dataSettings } from '../dataSettings';
+import { competitionCatalog, UnknownCompetitionError } from '../competitionCatalog';
+import { createProvenance, mergeProvenance } from '../provenance';
+import { isAbortError } from '../requestScheduler';
+import { getCurrentSeasonLabel, getRecentSeasonLabels, isCalendarYearSeason, toSeasons } from '../seasons';
+import { computeStandings, isCompletedMatch } from '../standingsEngine';
+import { getPointsDeductions } from '../pointsDeductions';
+import { DataProvider, ProviderRequest, ProviderResponse } from './dataProvider';
+import {
+  getMockEndpointData,
+  getMockStandingsTable,
+  getMockTeamsForCompetition,
+  getMockTopScorers
+} from './theSportsDbMockData';
+import {
+  RawEvent,
+  RawLeague,
+  RawPlayer,
+  RawTableRow,
+  RawTeam,
+  rawEventSchema,
+  rawEventStatSchema,
+  rawFormerTeamSchema,
+  rawHonourSchema,
+  rawLeagueSchema,
+  rawLineupSchema,
+  rawPlayerSchema,
+  rawSeasonSchema,
+  rawTableRowSchema,
+  rawTeamSchema,
+  rawTimelineSchema,
+  rawTopScorerSchema
+} from './theSportsDbSchemas';
+
+const DEFAULT_BADGE = 'https://www.thesportsdb.com/images/media/team/badge/default.png';
+const FINISHED_STATUSES = ['Match Finished', 'FT', 'AET', 'PEN'];
+
+export interface TheSportsDBConfig {
+  baseURL: string;
+  apiKey: string;
+}
+
+class TheSportsDBProvider implements DataProvider {
+  public readonly id = 'thesportsdb';
+  public readonly name = 'TheSportsDB';
+  public baseURL: string;
+  public apiKey: string;
+  private request: ProviderRequest;
+
+  /**
+   * Constructor - Initialize the adapter with its configuration and transport
+   * @param config - Base URL and API key for TheSportsDB
+   * @param request - HTTP transport supplied by FootballAPI
+   */
+  constructor(config: TheSportsDBConfig, request: ProviderRequest) {
+    this.baseURL = config.baseURL;
+    this.apiKey = config.apiKey;
+    this.request = request;
+  }
+
+  /**
+   * Resolve a competition code to its TheSportsDB league through the catalog
+   * Throws UnknownCompetitionError rather than guessing a league
+   */
+  private getLeague(competition: string): { id: string; league: string } {
+    const league = competitionCatalog.require(competition).theSportsDb;
+    if (!league) throw new UnknownCompetitionError(competition, `has no ${this.name} league id`);
+    return league;
+  }
+
+  /**
+   * Fetch a TheSportsDB endpoint, falling back to mock data on failure
+   * Rethrows instead when the demo data fallback is disabled or the load was cancelled
+   */
+  private async fetchData(endpoint: string, ttl: number, signal?: AbortSignal): Promise<ProviderResponse<unknown>> {
+    const fullUrl = `${this.baseURL}/${this.apiKey}${endpoint}`;
+
+    try {
+      return await this.request(fullUrl, { ttl, signal });
+    } catch (error) {
+      if (isAbortError(error) || !dataSettings.isMockFallbackEnabled()) throw error;
+
+      console.warn('❌ TheSportsDB API request failed, using mock data for:', endpoint);
+      console.warn('Error details:', error);
+      const data = getMockEndpointData(endpoint);
+      return { data, provenance: this.getMockProvenance(data?._notice) };
+    }
+  }
+
+  private getMockProvenance(notice?: string): DataProvenance {
+    return createProvenance('mock', this.name, Date.now(), notice || 'Demonstration data shown because TheSportsDB returned no data.');
+  }
+
+  /**
+   * Fetch an endpoint and validate every row of its list payload
+   * Rows are null when the list key is missing so callers can fall back
+   */
+  private async fetchRows<T>(endpoint: string, key: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, ttl: number = CACHE_TTL.standard, signal?: AbortSignal): Promise<{ rows: T[] | null; provenance: DataProvenance }> {
+    const { data, provenance } = await this.fetchData(endpoint, ttl, signal);
+    const envelope = validatePayload(listEnvelope(key), data, this.name, endpoint);
+    const rows = envelope[key];
+
+    if (!Array.isArray(rows)) return { rows: null, provenance };
+    return { rows: validateRows(schema, rows, this.name, endpoint), provenance };
+  }
+
+  /**
+   * Convert a TheSportsDB event into a normalized Match
+   */
+  private mapEvent(event: RawEvent, competitionName: string, season?: string): Match {
+    return {
+      id: event.idEvent,
+      homeTeam: {
+        id: event.idHomeTeam || event.strHomeTeam,
+        name: event.strHomeTeam,
+        shortName: event.strHomeTeam,
+        tla: event.strHomeTeam.substring(0, 3).toUpperCase(),
+        crest: event.strHomeTeamBadge || DEFAULT_BADGE
+      },
+      awayTeam: {
+        id: event.idAwayTeam || event.strAwayTeam,
+        name: event.strAwayTeam,
+        shortName: event.strAwayTeam,
+        tla: event.strAwayTeam.substring(0, 3).toUpperCase(),
+        crest: event.strAwayTeamBadge || DEFAULT_BADGE
+      },
+      utcDate: `${event.dateEvent}T${event.strTime || '15:00:00'}Z`,
+      status: FINISHED_STATUSES.includes(event.strStatus) ? 'FINISHED' : event.strStatus === 'Not Started' ? 'SCHEDULED' : 'IN_PLAY',
+      score: {
+        fullTime: {
+          home: event.intHomeScore ?? null,
+          away: event.intAwayScore ?? null
+        }
+      },
+      competition: { name: competitionName },
+      season: event.strSeason || season || '',
+      matchday: event.intRound ?? null,
+      venue: event.strVenue || undefined,
+      referee: event.strOfficial || undefined,
+      attendance: event.intSpectators ?? null
+    };
+  }
+
+  /**
+   * Convert a TheSportsDB table row into a normalized Standing
+   */
+  private mapTableRow(row: RawTableRow, index: number): Standing {
+    return {
+      position: row.intRank || (index + 1),
+      team: this.mapTableTeam(row),
+      playedGames: row.intPlayed,
+      won: row.intWin,
+      draw: row.intDraw,
+      lost: row.intLoss,
+      points: row.intPoints,
+      goalsFor: row.intGoalsFor,
+      goalsAgainst: row.intGoalsAgainst,
+      goalDifference: row.intGoalDifference ?? row.intGoalsFor - row.intGoalsAgainst,
+      form: row.strForm || 'N/A'
+    };
+  }
+
+  private mapTableTeam(row: RawTableRow): Team {
+    return {
+      id: row.idTeam,
+      name: row.strTeam,
+      shortName: row.strTeam,
+      tla: row.strTeam.substring(0, 3).toUpperCase(),
+      crest: row.strBadge || DEFAULT_BADGE
+    };
+  }
+
+  private mapTeam(team: RawTeam): Team {
+    return {
+      id: team.idTeam,
+      name: team.strTeam,
+      shortName: team.strTeamShort || team.strTeam,
+      tla: team.strTeamShort || team.strTeam.substring(0, 3).toUpperCase(),
+      crest: team.strBadge || team.strTeamBadge || DEFAULT_BADGE,
+      founded: team.intFormedYear || null,
+      venue: team.strStadium || 'Unknown Stadium',
+      website: team.strWebsite || '',
+      location: team.strLocation || team.strCountry || ''
+    };
+  }
+
+  private mapPlayer(player: RawPlayer): SquadPlayer {
+    return {
+      id: player.idPlayer,
+      name: player.strPlayer,
+      position: player.strPosition || 'Unknown',
+      dateOfBirth: player.dateBorn || undefined,
+      nationality: player.strNationality || undefined,
+      shirtNumber: player.strNumber ?? null
+    };
+  }
+
+  private mapPlayerProfile(player: RawPlayer): Player {
+    return {
+      ...this.mapPlayer(player),
+      birthPlace: player.strBirthLocation || undefined,
+      height: player.strHeight || undefined,
+      weight: player.strWeight || undefined,
+      currentTeam: player.idTeam && player.strTeam ? { id: player.idTeam, name: player.strTeam } : undefined,
+      photo: player.strCutout || player.strThumb || undefined,
+      description: player.strDescriptionEN || undefined
+    };
+  }
+
+  async fetchStandings(competition = 'PL', requestedSeason?: string, signal?: AbortSignal): Promise<StandingsResponse> {
+    const leagueId = this.getLeague(competition).id;
+    const season = await this.resolveSeason(competition, requestedSeason, signal);
+
+    const endpoint = `/lookuptable.php?l=${leagueId}&s=${season}`;
+    const { rows, provenance } = await this.fetchRows(endpoint, 'table', rawTableRowSchema, getSeasonTTL(season), signal);
+
+    if (rows && rows.length > 0) {
+      return this.buildStandingsResponse(competition, rows.map((row, index) => this.mapTableRow(row, index)), season, provenance);
+    }
+
+    // No published table: compute one from the season's results when there are any
+    const computed = await this.fetchComputedStandings(competition, season, signal);
+    if (computed) return computed;
+
+    // With the demo fallback disabled an empty table is shown as-is
+    if (!dataSettings.isMockFallbackEnabled()) {
+      return this.buildStandingsResponse(competition, [], season, provenance);
+    }
+
+    console.log('API returned no table data, using mock data for', competition, season);
+    return this.getMockStandingsData(competition, season);
+  }
+
+  private buildStandingsResponse(competition: string, table: Standing[], season: string, provenance: DataProvenance): StandingsResponse {
+    return {
+      standings: [{
+        stage: "REGULAR_SEASON",
+        type: "TOTAL",
+        table: table
+      }],
+      competition: {
+        name: competitionCatalog.getName(competition),
+        code: competition
+      },
+      season,
+      provenance
+    };
+  }
+
+  /**
+   * Build the table from the season's results with the standings engine
+   * Returns null when the season has no finished matches or cannot be loaded
+   */
+  private async fetchComputedStandings(competition: string, season: string, signal?: AbortSignal): Promise<StandingsResponse | null> {
+    try {
+      const { matches, provenance } = await this.fetchCompetitionMatches(competition, season, signal);
+      if (provenance.source === 'mock') return null;
+
+      const played = matches.filter(isCompletedMatch).length;
+      if (played === 0) return null;
+
+      console.log(`Computed ${competition} ${season} table from ${played} results`);
+      return this.buildStandingsResponse(competition, computeStandings(matches, {
+        deductions: getPointsDeductions(competition, season)
+      }), season, {
+        ...provenance,
+        notice: `Table computed from ${played} result${played !== 1 ? 's' : ''} because TheSportsDB has no published table for this season.`
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn('Could not compute standings from results:', error);
+      return null;
+    }
+  }
+
+  private getMockStandingsData(competition: string, season: string): StandingsResponse {
+    const competitionType = (competition === 'CL' || competition === 'EL') ? 'GROUP_STAGE' : 'REGULAR_SEASON';
+
+    return {
+      standings: [{
+        stage: competitionType,
+        type: competitionType === 'GROUP_STAGE' ? 'GROUP' : 'TOTAL',
+        table: getMockStandingsTable(competition, season)
+      }],
+      competition: {
+        name: competitionCatalog.getName(competition),
+        code: competition
+      },
+      season,
+      provenance: this.getMockProvenance('Demonstration standings shown because TheSportsDB has no table for this season.')
+    };
+  }
+
+  async fetchMatches(competition = 'PL', season?: string, signal?: AbortSignal): Promise<MatchesResponse> {
+    // eventsnextleague lists the league's upcoming and live matches
+    const endpoint = `/eventsnextleague.php?id=${this.getLeague(competition).id}`;
+    const { rows: events, provenance } = await this.fetchRows(endpoint, 'events', rawEventSchema, CACHE_TTL.live, signal);
+
+    if (events) {
+      const competitionName = competitionCatalog.getName(competition);
+      const matches = events.map(event => this.mapEvent(event, competitionName, season));
+      return { matches, count: matches.length, provenance };
+    }
+
+    return { matches: [], count: 0, provenance };
+  }
+
+  async fetchTeams(competition = 'PL', requestedSeason?: string, signal?: AbortSignal): Promise<TeamsResponse> {
+    const { country, format } = competitionCatalog.require(competition);
+    const { id: leagueId, league } = this.getLeague(competition);
+    const season = await this.resolveSeason(competition, requestedSeason, signal);
+
+    // Try multiple endpoints to get more comprehensive team data
+    const endpoints = [
+      `/search_all_teams.php?l=${encodeURIComponent(league.replace(/ /g, '_'))}`,
+      `/lookuptable.php?l=${leagueId}&s=${season}`
+    ];
+
+    // Domestic leagues also pick up teams listed under their country
+    if (format === 'league') {
+      endpoints.push(`/search_all_teams.php?s=Soccer&c=${encodeURIComponent(country)}`);
+    }
+
+    let allTeams: Team[] = [];
+    const provenances: DataProvenance[] = [];
+    let lastError: unknown = null;
+
+    for (const endpoint of endpoints) {
+      try {
+        if (endpoint.startsWith('/lookuptable')) {
+          // Process teams from table endpoint
+          const { rows, provenance } = await this.fetchRows(endpoint, 'table', rawTableRowSchema, getSeasonTTL(season), signal);
+          provenances.push(provenance);
+          const teams = (rows || []).map(row => ({
+            ...this.mapTableTeam(row),
+            founded: null,
+            venue: 'Unknown Stadium',
+            website: '',
+            location: ''
+          }));
+          allTeams = [...allTeams, ...teams];
+        } else {
+          // Process teams from search endpoint
+          const { rows, provenance } = await this.fetchRows(endpoint, 'teams', rawTeamSchema, CACHE_TTL.static, signal);
+          provenances.push(provenance);
+          const teams = (rows || []).map(team => this.mapTeam(team));
+          allTeams = [...allTeams, ...teams];
+        }
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.log(`Failed to fetch from endpoint: ${endpoint}`, error);
+        lastError = error;
+        continue;
+      }
+    }
+
+    // Every endpoint failed and demo data is not allowed to hide it
+    if (provenances.length === 0 && lastError) {
+      throw lastError;
+    }
+
+    // Remove duplicates based on team ID
+    const uniqueTeams = allTeams.filter((team, index, self) =>
+      index === self.findIndex(t => t.id === team.id)
+    );
+
+    // If we still don't have enough teams, add mock data
+    if (uniqueTeams.length < 10 && dataSettings.isMockFallbackEnabled()) {
+      const mockTeams = getMockTeamsForCompetition(competition);
+      const existingIds = new Set(uniqueTeams.map(t => t.id));
+      const additionalTeams = mockTeams.filter(team => !existingIds.has(team.id));
+      uniqueTeams.push(...additionalTeams);
+
+      if (additionalTeams.length > 0) {
+        provenances.push(this.getMockProvenance(`${additionalTeams.length} demonstration teams were added to complete the list.`));
+      }
+    }
+
+    console.log(`Fetched ${uniqueTeams.length} teams for ${competition}`);
+    return { teams: uniqueTeams, count: uniqueTeams.length, provenance: mergeProvenance(...provenances) };
+  }
+
+  async fetchCompetitionMatches(competition = 'PL', season?: string, signal?: AbortSignal): Promise<MatchesResponse> {
+    const leagueId = this.getLeague(competition).id;
+
+    // A season's full fixture list comes from eventsseason;
+    // without a season, eventspastleague returns the latest results
+    const endpoint = season
+      ? `/eventsseason.php?id=${leagueId}&s=${season}`
+      : `/eventspastleague.php?id=${leagueId}`;
+
+    const { rows, provenance } = await this.fetchRows(endpoint, 'events', rawEventSchema, getSeasonTTL(season), signal);
+    let events = rows;
+
+    if (events) {
+      // Filter events for the specific season if provided
+      if (season) {
+        events = events.filter(event => event.strSeason === season);
+      }
+
+      const matches = events.map(event => this.mapEvent(event, competitionCatalog.getName(competition), season));
+      return { matches, count: matches.length, provenance };
+    }
+
+    return { matches: [], count: 0, provenance };
+  }
+
+  /**
+   * Fetch a team and its squad; the league id maps the team to a catalog competition
+   */
+  async fetchTeam(teamId: string, signal?: AbortSignal): Promise<TeamResponse> {
+    const [teams, players] = await Promise.all([
+      this.fetchRows(`/lookupteam.php?id=${teamId}`, 'teams', rawTeamSchema, CACHE_TTL.static, signal),
+      this.fetchRows(`/lookup_all_players.php?id=${teamId}`, 'player', rawPlayerSchema, CACHE_TTL.static, signal)
+    ]);
+
+    const team = teams.rows?.find(row => row.idTeam === teamId);
+    if (!team) return { team: null, provenance: teams.provenance };
+
+    const competition = competitionCatalog.getAll().find(entry => entry.theSportsDb?.id === team.idLeague)?.code;
+    return {
+      team: { ...this.mapTeam(team), squad: (players.rows || []).map(player => this.mapPlayer(player)) },
+      competition,
+      provenance: mergeProvenance(teams.provenance, players.provenance)
+    };
+  }
+
+  /**
+   * Latest results come from eventslast and next fixtures from eventsnext
+   */
+  async fetchTeamMatches(teamId: string, signal?: AbortSignal): Promise<MatchesResponse> {
+    const [last, next] = await Promise.all([
+      this.fetchRows(`/eventslast.php?id=${teamId}`, 'results', rawEventSchema, CACHE_TTL.standard, signal),
+      this.fetchRows(`/eventsnext.php?id=${teamId}`, 'events', rawEventSchema, CACHE_TTL.standard, signal)
+    ]);
+
+    const matches = [...(last.rows || []), ...(next.rows || [])].map(event => this.mapEvent(event, event.strLeague || ''));
+    return { matches, count: matches.length, provenance: mergeProvenance(last.provenance, next.provenance) };
+  }
+
+  /**
+   * Meetings come from searchevents, once per home and away order; each
+   * team's latest results add recent meetings the search has not indexed yet
+   */
+  async fetchHeadToHead(teamA: TeamRef, teamB: TeamRef, signal?: AbortSignal): Promise<MatchesResponse> {
+    const search = (home: TeamRef, away: TeamRef) => {
+      const query = encodeURIComponent(`${home.name}_vs_${away.name}`.replace(/ /g, '_'));
+      return this.fetchRows(`/searchevents.php?e=${query}`, 'event', rawEventSchema, CACHE_TTL.standard, signal);
+    };
+    const [first, second, latestA, latestB] = await Promise.all([
+      search(teamA, teamB),
+      search(teamB, teamA),
+      this.fetchRows(`/eventslast.php?id=${teamA.id}`, 'results', rawEventSchema, CACHE_TTL.standard, signal),
+      this.fetchRows(`/eventslast.php?id=${teamB.id}`, 'results', rawEventSchema, CACHE_TTL.standard, signal)
+    ]);
+
+    // Demo events are never mixed into real meetings
+    const real = [first, second].some(response => response.provenance.source !== 'mock');
+    const responses = [first, second, latestA, latestB].filter(response => !real || response.provenance.source !== 'mock');
+    const isTeam = (team: TeamRef, id?: string | null, name?: string) => (!!id && id === team.id) || name === team.name;
+
+    const events = new Map<string, RawEvent>();
+    responses.forEach(({ rows }) => (rows || [])
+      .filter(event =>
+        (isTeam(teamA, event.idHomeTeam, event.strHomeTeam) && isTeam(teamB, event.idAwayTeam, event.strAwayTeam)) ||
+        (isTeam(teamB, event.idHomeTeam, event.strHomeTeam) && isTeam(teamA, event.idAwayTeam, event.strAwayTeam))
+      )
+      .forEach(event => events.set(event.idEvent, event)));
+
+    const matches = [...events.values()].map(event => this.mapEvent(event, event.strLeague || ''));
+    return { matches, count: matches.length, provenance: mergeProvenance(...responses.map(response => response.provenance)) };
+  }
+
+  /**
+   * Fetch a player with former teams and honours
+   * Club history and honours are optional extras, so their failures leave the lists empty.
+   */
+  async fetchPlayer(playerId: string, signal?: AbortSignal): Promise<PlayerResponse> {
+    const optional = <T,>(request: Promise<{ rows: T[] | null; provenance: DataProvenance }>) => request.catch(error => {
+      if (isAbortError(error)) throw error;
+      console.warn('Could not load player details:', error);
+      return { rows: null as T[] | null, provenance: undefined };
+    });
+
+    const [players, formerTeams, honours] = await Promise.all([
+      this.fetchRows(`/lookupplayer.php?id=${playerId}`, 'players', rawPlayerSchema, CACHE_TTL.static, signal),
+      optional(this.fetchRows(`/lookupformerteams.php?id=${playerId}`, 'formerteams', rawFormerTeamSchema, CACHE_TTL.static, signal)),
+      optional(this.fetchRows(`/lookuphonours.php?id=${playerId}`, 'honours', rawHonourSchema, CACHE_TTL.static, signal))
+    ]);
+
+    const player = players.rows?.find(row => row.idPlayer === playerId);
+    if (!player) return { player: null, provenance: players.provenance };
+
+    return {
+      player: {
+        ...this.mapPlayerProfile(player),
+        formerTeams: (formerTeams.rows || [])
+          .map(team => ({
+            teamId: team.idFormerTeam,
+            teamName: team.strFormerTeam,
+            crest: team.strBadge || undefined,
+            joined: team.strJoined,
+            departed: team.strDeparted,
+            moveType: team.strMoveType || undefined
+          }))
+          .sort((a, b) => (a.joined ?? '').localeCompare(b.joined ?? '')),
+        honours: (honours.rows || []).map(honour => ({
+          title: honour.strHonour,
+          season: honour.strSeason,
+          teamName: honour.strTeam || undefined
+        }))
+      },
+      provenance: mergeProvenance(players.provenance, formerTeams.provenance, honours.provenance)
+    };
+  }
+
+  async searchPlayers(query: string, signal?: AbortSignal): Promise<PlayersResponse> {
+    const endpoint = `/searchplayers.php?p=${encodeURIComponent(query.trim().replace(/ /g, '_'))}`;
+    const { rows, provenance } = await this.fetchRows(endpoint, 'player', rawPlayerSchema, CACHE_TTL.static, signal);
+    const players = (rows || [])
+      .filter(player => !player.strSport || player.strSport === 'Soccer')
+      .map(player => this.mapPlayerProfile(player));
+    return { players, count: players.length, provenance };
+  }
+
+  async fetchMatch(eventId: string, signal?: AbortSignal): Promise<MatchResponse> {
+    const endpoint = `/lookupevent.php?id=${eventId}`;
+    const { rows, provenance } = await this.fetchRows(endpoint, 'events', rawEventSchema, CACHE_TTL.standard, signal);
+    const event = rows?.find(row => row.idEvent === eventId);
+    return { match: event ? this.mapEvent(event, event.strLeague || '') : null, provenance };
+  }
+
+  async fetchLineup(eventId: string, signal?: AbortSignal): Promise<LineupResponse> {
+    const endpoint = `/lookuplineup.php?id=${eventId}`;
+    const { rows, provenance } = await this.fetchRows(endpoint, 'lineup', rawLineupSchema, CACHE_TTL.standard, signal);
+    const lineup = (rows || []).map(player => ({
+      idPlayer: player.idPlayer,
+      strPlayer: player.strPlayer,
+      strPosition: player.strPosition,
+      strFormation: player.strFormation,
+      idTeam: player.idTeam,
+      substitute: player.strSubstitute === 'Yes'
+    }));
+    return { lineup, provenance };
+  }
+
+  async fetchEventStats(eventId: string, signal?: AbortSignal): Promise<EventStatsResponse> {
+    const endpoint = `/lookupeventstats.php?id=${eventId}`;
+    const { rows, provenance } = await this.fetchRows(endpoint, 'eventstats', rawEventStatSchema, CACHE_TTL.standard, signal);
+    const eventstats = (rows || []).map(stat => ({
+      strStat: stat.strStat,
+      intHome: stat.intHome,
+      intAway: stat.intAway
+    }));
+    return { eventstats, provenance };
+  }
+
+  async fetchTimeline(eventId: string, signal?: AbortSignal): Promise<TimelineResponse> {
+    const endpoint = `/lookuptimeline.php?id=${eventId}`;
+    const { rows, provenance } = await this.fetchRows(endpoint, 'timeline', rawTimelineSchema, CACHE_TTL.standard, signal);
+    const timeline = (rows || []).map(event => ({
+      idTimeline: event.idTimeline,
+      idEvent: event.idEvent,
+      strTimeline: event.strTimeline,
+      strTimelineDetail: event.strTimelineDetail,
+      strTeam: event.strTeam,
+      strPlayer: event.strPlayer,
+      strAssist: event.strAssist,
+      strTimelineDescription: event.strTimelineDescription,
+      intTime: event.intTime
+    }));
+    return { timeline, provenance };
+  }
+
+  /**
+   * Fetch every season of a league, marking the one TheSportsDB reports as current
+   * Demo seasons are generated when the list is unavailable and the fallback is on
+   */
+  async fetchSeasons(competition: string, signal?: AbortSignal): Promise<SeasonsResponse> {
+    const leagueId = this.getLeague(competition).id;
+
+    const [{ rows, provenance }, current] = await Promise.all([
+      this.fetchRows(`/search_all_seasons.php?id=${leagueId}`, 'seasons', rawSeasonSchema, CACHE_TTL.static, signal),
+      this.fetchCurrentSeason(leagueId, signal)
+    ]);
+
+    if ((rows && rows.length > 0) || !dataSettings.isMockFallbackEnabled()) {
+      return { seasons: toSeasons((rows || []).map(row => row.strSeason), current), provenance };
+    }
+
+    const { calendarYear } = competitionCatalog.require(competition);
+    return {
+      seasons: toSeasons(getRecentSeasonLabels(calendarYear)),
+      provenance: this.getMockProvenance('Demonstration seasons shown because TheSportsDB returned no season list.')
+    };
+  }
+
+  /**
+   * Current season from the league details; optional, so failures are ignored
+   */
+  private async fetchCurrentSeason(leagueId: string, signal?: AbortSignal): Promise<string | undefined> {
+    try {
+      const { rows } = await this.fetchRows(`/lookupleague.php?id=${leagueId}`, 'leagues', rawLeagueSchema, CACHE_TTL.static, signal);
+      return rows?.[0]?.strCurrentSeason || undefined;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      return undefined;
+    }
+  }
+
+  /**
+   * The requested season, else the league's current season from TheSportsDB,
+   * else the season running today
+   */
+  private async resolveSeason(competition: string, season: string | undefined, signal?: AbortSignal): Promise<string> {
+    if (season) return season;
+    const current = await this.fetchCurrentSeason(this.getLeague(competition).id, signal);
+    return current || getCurrentSeasonLabel(competitionCatalog.require(competition).calendarYear);
+  }
+
+  /**
+   * List soccer leagues from search_all_leagues.php, or all_leagues.php when the
+   * search returns nothing; codes default to the TheSportsDB league id
+   */
+  async fetchCompetitions(signal?: AbortSignal): Promise<Competition[]> {
+    const { rows: searched } = await this.fetchRows('/search_all_leagues.php?s=Soccer', 'countries', rawLeagueSchema, CACHE_TTL.static, signal);
+    let leagues = searched;
+
+    if (!leagues || leagues.length === 0) {
+      const { rows } = await this.fetchRows('/all_leagues.php', 'leagues', rawLeagueSchema, CACHE_TTL.static, signal);
+      leagues = (rows || []).filter(league => league.strSport === 'Soccer');
+    }
+
+    return leagues.map(league => this.mapLeague(league));
+  }
+
+  private mapLeague(league: RawLeague): Competition {
+    return {
+      code: league.idLeague,
+      name: league.strLeague,
+      country: league.strCountry || 'International',
+      format: this.inferFormat(league.strLeague),
+      teamCount: null,
+      logo: league.strBadge || league.strLogo || '',
+      calendarYear: league.strCurrentSeason ? isCalendarYearSeason(league.strCurrentSeason) : undefined,
+      theSportsDb: { id: league.idLeague, league: league.strLeague }
+    };
+  }
+
+  /**
+   * TheSportsDB does not publish a league's format, so it is guessed from the name
+   */
+  private inferFormat(name: string): CompetitionFormat {
+    if (/champions league|europa|conference league|world cup|euro\b|copa am[eé]rica|nations league|club world/i.test(name)) {
+      return 'group-knockout';
+    }
+    if (/cup|copa|coppa|pokal|coupe|ta[cç]a|trophy|shield|super/i.test(name)) {
+      return 'cup';
+    }
+    return 'league';
+  }
+
+  async fetchTopScorers(competition = 'PL', requestedSeason?: string, signal?: AbortSignal): Promise<TopScorersResponse> {
+    const leagueId = this.getLeague(competition).id;
+    const season = await this.resolveSeason(competition, requestedSeason, signal);
+
+    // Try to fetch top scorers from TheSportsDB
+    const endpoint = `/lookuptopscorers.php?l=${leagueId}&s=${season}`;
+    const { rows: scorers, provenance } = await this.fetchRows(endpoint, 'topscorers', rawTopScorerSchema, getSeasonTTL(season), signal);
+
+    if ((scorers && scorers.length > 0) || !dataSettings.isMockFallbackEnabled()) {
+      return {
+        scorers: (scorers || []).map(scorer => ({
+          name: scorer.strPlayer,
+          goals: scorer.intGoals,
+          team: scorer.strTeam,
+          nationality: scorer.strNationality,
+          playerId: scorer.idPlayer || undefined
+        })),
+        provenance
+      };
+    }
+
+    // Fallback to mock data with real player names based on competition
+    return {
+      scorers: getMockTopScorers(competition, season),
+      provenance: this.getMockProvenance('Demonstration top scorers shown because TheSportsDB has none for this season.')
+    };
+  }
+}
+
+export default TheSportsDBProvider;
@@ -0,0 +1,151 @@
+/**
+ * TheSportsDB Schemas - Raw payload validation
+ *
+ * zod schemas for the raw TheSportsDB v1 responses. Numeric fields arrive as
+ * strings ("15") and are converted here, so a malformed value is reported
+ * instead of silently becoming zero.
+ */
+
+import { z } from 'zod';
+import { numericField } from '../validation';
+
+const optionalText = z.string().nullish().transform(value => value ?? '');
+
+export const rawTableRowSchema = z.object({
+  idTeam: z.string().min(1),
+  strTeam: z.string().min(1),
+  intRank: numericField.nullish(),
+  intPlayed: numericField,
+  intWin: numericField,
+  intDraw: numericField,
+  intLoss: numericField,
+  intGoalsFor: numericField,
+  intGoalsAgainst: numericField,
+  intGoalDifference: numericField.nullish(),
+  intPoints: numericField,
+  strBadge: z.string().nullish(),
+  strForm: z.string().nullish()
+});
+
+export const rawEventSchema = z.object({
+  idEvent: z.string().min(1),
+  idHomeTeam: optionalText,
+  idAwayTeam: optionalText,
+  strHomeTeam: z.string().min(1),
+  strAwayTeam: z.string().min(1),
+  strHomeTeamBadge: z.string().nullish(),
+  strAwayTeamBadge: z.string().nullish(),
+  intHomeScore: numericField.nullish(),
+  intAwayScore: numericField.nullish(),
+  dateEvent: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date'),
+  strTime: z.string().nullish(),
+  strStatus: z.string().nullish(),
+  strSeason: z.string().nullish(),
+  intRound: numericField.nullish(),
+  strLeague: z.string().nullish(),
+  strVenue: z.string().nullish(),
+  strOfficial: z.string().nullish(),
+  intSpectators: numericField.nullish().catch(null)
+});
+
+export const rawTeamSchema = z.object({
+  idTeam: z.string().min(1),
+  strTeam: z.string().min(1),
+  strTeamShort: z.string().nullish(),
+  strBadge: z.string().nullish(),
+  strTeamBadge: z.string().nullish(),
+  intFormedYear: numericField.nullish().catch(null),
+  strStadium: z.string().nullish(),
+  strWebsite: z.string().nullish(),
+  strLocation: z.string().nullish(),
+  strCountry: z.string().nullish(),
+  idLeague: z.string().nullish()
+});
+
+export const rawPlayerSchema = z.object({
+  idPlayer: z.string().min(1),
+  strPlayer: z.string().min(1),
+  strPosition: optionalText,
+  dateBorn: z.string().nullish(),
+  strNationality: z.string().nullish(),
+  strNumber: numericField.nullish().catch(null),
+  idTeam: z.string().nullish(),
+  strTeam: z.string().nullish(),
+  strSport: z.string().nullish(),
+  strBirthLocation: z.string().nullish(),
+  strHeight: z.string().nullish(),
+  strWeight: z.string().nullish(),
+  strThumb: z.string().nullish(),
+  strCutout: z.string().nullish(),
+  strDescriptionEN: z.string().nullish()
+});
+
+export const rawFormerTeamSchema = z.object({
+  idFormerTeam: optionalText,
+  strFormerTeam: z.string().min(1),
+  strBadge: z.string().nullish(),
+  strJoined: z.union([z.string(), z.number()]).nullish().transform(value => value == null ? undefined : String(value)),
+  strDeparted: z.union([z.string(), z.number()]).nullish().transform(value => value == null ? undefined : String(value)),
+  strMoveType: z.string().nullish()
+});
+
+export const rawHonourSchema = z.object({
+  strHonour: z.string().min(1),
+  strSeason: optionalText,
+  strTeam: z.string().nullish()
+});
+
+export const rawLineupSchema = z.object({
+  idPlayer: z.string().min(1),
+  strPlayer: z.string().min(1),
+  strPosition: optionalText,
+  strFormation: optionalText,
+  idTeam: z.string(),
+  strSubstitute: z.string().nullish()
+});
+
+export const rawEventStatSchema = z.object({
+  strStat: z.string().min(1),
+  intHome: z.union([z.string(), z.number()]).transform(String),
+  intAway: z.union([z.string(), z.number()]).transform(String)
+});
+
+export const rawTimelineSchema = z.object({
+  idTimeline: z.string().min(1),
+  idEvent: z.string(),
+  strTimeline: z.string(),
+  strTimelineDetail: optionalText,
+  strTeam: optionalText,
+  strPlayer: optionalText,
+  strAssist: optionalText,
+  strTimelineDescription: optionalText,
+  intTime: z.union([z.string(), z.number()]).nullish().transform(value => value == null ? undefined : String(value))
+});
+
+export const rawTopScorerSchema = z.object({
+  idPlayer: z.string().nullish(),
+  strPlayer: z.string().min(1),
+  intGoals: numericField,
+  strTeam: optionalText,
+  strNationality: optionalText
+});
+
+export const rawLeagueSchema = z.object({
+  idLeague: z.string().min(1),
+  strLeague: z.string().min(1),
+  strSport: optionalText,
+  strCountry: optionalText,
+  strBadge: z.string().nullish(),
+  strLogo: z.string().nullish(),
+  strCurrentSeason: z.string().nullish()
+});
+
+export const rawSeasonSchema = z.object({
+  strSeason: z.string().min(1)
+});
+
+export type RawTableRow = z.infer<typeof rawTableRowSchema>;
+export type RawEvent = z.infer<typeof rawEventSchema>;
+export type RawTeam = z.infer<typeof rawTeamSchema>;
+export type RawPlayer = z.infer<typeof rawPlayerSchema>;
+export type RawLeague = z.infer<typeof rawLeagueSchema>;
@@ -0,0 +1,288 @@
+/**
+ * RequestScheduler Class - Shared HTTP request coordination
+ *
+ * Sits between FootballAPI and `fetch` so the app stays inside provider rate
+ * limits: identical in-flight requests are coalesced, only a few requests run
+ * at once, and 429/5xx responses are retried with exponential backoff that
+ * honors `Retry-After`. The current rate-limit state can be observed by the UI.
+ * A coalesced request is only cancelled once every caller sharing it has aborted.
+ */
+
+export interface RateLimitState {
+  /** Requests currently running */
+  active: number;
+  /** Requests waiting for a free slot */
+  queued: number;
+  /** Requests waiting to retry after a 429/5xx */
+  retrying: number;
+  /** Epoch ms until which the provider asked us to back off */
+  limitedUntil: number | null;
+  /** Remaining requests reported by the provider, when it sends the header */
+  remaining: number | null;
+}
+
+export interface RequestSchedulerOptions {
+  maxConcurrent?: number;
+  maxRetries?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+}
+
+type StateListener = (state: RateLimitState) => void;
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  callers: number;
+}
+
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+
+/**
+ * HTTP error with the response status, thrown once retries are exhausted
+ */
+export class HttpError extends Error {
+  public status: number;
+
+  constructor(status: number, statusText: string) {
+    super(`API request failed: ${status} - ${statusText}`);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+
+  get isRateLimited(): boolean {
+    return this.status === 429;
+  }
+}
+
+export const createAbortError = () => new DOMException('The request was aborted', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Wait for a delay, rejecting early if the signal aborts
+ */
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createAbortError());
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+class RequestScheduler {
+  private maxConcurrent: number;
+  private maxRetries: number;
+  private baseDelay: number;
+  private maxDelay: number;
+  private inFlight = new Map<string, InFlightRequest>();
+  private waiting: Array<() => void> = [];
+  private listeners = new Set<StateListener>();
+  private state: RateLimitState = {
+    active: 0,
+    queued: 0,
+    retrying: 0,
+    limitedUntil: null,
+    remaining: null
+  };
+
+  /**
+   * Constructor - Configure concurrency and retry behaviour
+   * @param options - Concurrency cap, retry count and backoff bounds
+   */
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.maxConcurrent = options.maxConcurrent ?? 4;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.baseDelay = options.baseDelay ?? 1000;
+    this.maxDelay = options.maxDelay ?? 30000;
+  }
+
+  /**
+   * Run a task under the concurrency cap, sharing it with identical callers
+   * @param key - Requests with the same key are coalesced while in flight
+   * @param task - Work to run once a slot is free; receives the shared abort signal
+   * @param signal - Aborts this caller; the task itself stops once all callers abort
+   */
+  schedule<T>(key: string, task: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    // An aborted request is still settling; new callers start a fresh one instead of inheriting its AbortError
+    let request = this.inFlight.get(key);
+    if (request && !request.controller.signal.aborted) {
+      console.log('🔗 Joining in-flight request:', key);
+    } else {
+      const controller = new AbortController();
+      const created: InFlightRequest = { promise: null, controller, callers: 0 };
+      created.promise = this.runWithSlot(task, controller.signal).finally(() => this.release(key, created));
+      request = created;
+      this.inFlight.set(key, request);
+    }
+
+    request.callers++;
+    return this.followRequest(key, request, signal) as Promise<T>;
+  }
+
+  /**
+   * Fetch a URL, retrying 429/5xx responses with exponential backoff
+   * Non-retryable responses are returned as-is for the caller to handle
+   */
+  async fetchWithRetry(url: string, init: RequestInit): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForRateLimit(init.signal);
+
+      const response = await fetch(url, init);
+      this.readRemaining(response);
+
+      // Every 429 opens a back-off window, including one on the last attempt,
+      // so the next request waits instead of hitting the limit again
+      const delay = this.getRetryDelay(response, attempt);
+      if (response.status === 429) {
+        this.update({ limitedUntil: Math.max(this.state.limitedUntil || 0, Date.now() + delay) });
+      }
+
+      if (!RETRYABLE_STATUSES.includes(response.status) || attempt >= this.maxRetries) {
+        return response;
+      }
+
+      console.warn(`⏳ ${response.status} from ${url}, retrying in ${Math.round(delay / 1000)}s (attempt ${attempt + 1}/${this.maxRetries})`);
+
+      this.update({ retrying: this.state.retrying + 1 });
+      try {
+        await sleep(delay, init.signal);
+      } finally {
+        this.update({ retrying: this.state.retrying - 1 });
+      }
+    }
+  }
+
+  getState(): RateLimitState {
+    return this.state;
+  }
+
+  /**
+   * Whether the provider has asked us to back off right now
+   */
+  isRateLimited(): boolean {
+    return this.state.limitedUntil !== null && this.state.limitedUntil > Date.now();
+  }
+
+  subscribe(listener: StateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Resolve or reject with the shared request, or reject as soon as this caller aborts
+   * When the last caller aborts, the shared request is cancelled too
+   */
+  private followRequest(key: string, request: InFlightRequest, signal?: AbortSignal): Promise<unknown> {
+    if (!signal) return request.promise;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        request.callers--;
+        if (request.callers === 0) {
+          request.controller.abort();
+          this.release(key, request);
+        }
+        reject(createAbortError());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      request.promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Forget a request, unless a newer request has already taken its key
+   */
+  private release(key: string, request: InFlightRequest): void {
+    if (this.inFlight.get(key) === request) this.inFlight.delete(key);
+  }
+
+  /**
+   * Finished tasks hand their slot straight to the next queued task
+   */
+  private async runWithSlot<T>(task: (signal: AbortSignal) => Promise<T>, signal: AbortSignal): Promise<T> {
+    if (this.state.active >= this.maxConcurrent) {
+      this.update({ queued: this.state.queued + 1 });
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+      this.update({ queued: this.state.queued - 1 });
+    } else {
+      this.update({ active: this.state.active + 1 });
+    }
+
+    try {
+      // Everyone gave up while this request sat in the queue
+      if (signal.aborted) throw createAbortError();
+      return await task(signal);
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.update({ active: this.state.active - 1 });
+      }
+    }
+  }
+
+  /**
+   * Hold new attempts until a provider-imposed back-off window has passed
+   */
+  private async waitForRateLimit(signal?: AbortSignal): Promise<void> {
+    if (!this.isRateLimited()) {
+      if (this.state.limitedUntil !== null) this.update({ limitedUntil: null });
+      return;
+    }
+    await sleep(this.state.limitedUntil - Date.now(), signal);
+  }
+
+  /**
+   * Delay before the next attempt: Retry-After when present, otherwise
+   * exponential backoff with jitter, capped at maxDelay
+   */
+  private getRetryDelay(response: Response, attempt: number): number {
+    const retryAfter = response.headers.get('Retry-After');
+
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const delay = Number.isNaN(seconds) ? new Date(retryAfter).getTime() - Date.now() : seconds * 1000;
+      if (!Number.isNaN(delay)) return Math.min(Math.max(delay, 0), this.maxDelay);
+    }
+
+    const backoff = this.baseDelay * 2 ** attempt;
+    return Math.min(backoff + Math.random() * this.baseDelay, this.maxDelay);
+  }
+
+  /**
+   * Track the remaining request quota (football-data.org sends X-Requests-Available-Minute)
+   */
+  private readRemaining(response: Response): void {
+    const header = response.headers.get('X-Requests-Available-Minute') ?? response.headers.get('X-RateLimit-Remaining');
+    if (header === null) return;
+
+    const remaining = parseInt(header, 10);
+    if (!Number.isNaN(remaining)) this.update({ remaining });
+  }
+
+  private update(changes: Partial<RateLimitState>): void {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
+
+// Single scheduler shared by every FootballAPI instance
+export const requestScheduler = new RequestScheduler();
+
+export default RequestScheduler;
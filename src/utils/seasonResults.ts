@@ -0,0 +1,40 @@
+/**
+ * Season Results - A competition's standings together with its results
+ *
+ * The tables, trends and position histories built from results are optional
+ * extras: when the results cannot be loaded the standings are still shown.
+ * Demo results are never mixed into a real table, and only real results feed
+ * the Elo ratings.
+ */
+
+import { Match, StandingsResponse } from '@/types/football';
+import type FootballAPI from './footballApi';
+import { eloRatings } from './eloRatings';
+import { isAbortError } from './requestScheduler';
+
+export interface SeasonResults {
+  standings: StandingsResponse;
+  /** Finished and remaining matches; empty when the results are missing or demo data next to a real table */
+  matches: Match[];
+}
+
+/**
+ * Load a competition season's standings and results in parallel
+ */
+export const loadSeasonResults = async (api: FootballAPI, competition: string, season: string, signal?: AbortSignal): Promise<SeasonResults> => {
+  const [standings, results] = await Promise.all([
+    api.fetchStandings(competition, season, signal),
+    api.fetchCompetitionMatches(competition, season, signal).catch(error => {
+      if (isAbortError(error)) throw error;
+      console.warn('Could not load the season results:', error);
+      return null;
+    })
+  ]);
+
+  // Already rated matches are skipped, so loading a season again is cheap
+  if (results && results.provenance?.source !== 'mock') {
+    eloRatings.processMatches(results.matches);
+  }
+  const usable = results && (results.provenance?.source !== 'mock' || standings.provenance?.source === 'mock');
+  return { standings, matches: usable ? results.matches : [] };
+};
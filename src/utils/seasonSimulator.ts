@@ -0,0 +1,177 @@
+/**
+ * Season Simulator - Final-table projections by Monte Carlo simulation
+ *
+ * Starting from the current table, every remaining fixture is played many
+ * times over with scores drawn from the prediction model's scoreline
+ * probabilities (`predictionModel.ts`, fitted once to the season's results).
+ * Each simulated season is ranked by points, then goal difference, then
+ * goals scored, with remaining ties broken at random; head-to-head rules are
+ * not modelled. Counting where every team finished gives the probability of
+ * each final position and the expected points.
+ *
+ * Simulations are pure computation, so the page runs them in a Web Worker
+ * (`seasonSimulator.worker.ts`).
+ */
+
+import { Match, Standing, Team } from '@/types/football';
+import { fitPredictionModel, MatchPrediction, predictMatch } from './predictionModel';
+import { getTeamKey } from './standingsEngine';
+
+export interface SeasonSimulationOptions {
+  iterations?: number;
+  /** Seed for repeatable runs; random when omitted */
+  seed?: number;
+  pointsForWin?: number;
+  pointsForDraw?: number;
+}
+
+export interface TeamProjection {
+  team: Team;
+  currentPoints: number;
+  expectedPoints: number;
+  /** Probability of each final position, index 0 being first place */
+  positions: number[];
+}
+
+export interface SeasonProjection {
+  iterations: number;
+  remainingFixtures: number;
+  /** Teams in the order of the current table */
+  teams: TeamProjection[];
+}
+
+export const DEFAULT_SIMULATIONS = 10000;
+
+// Scorelines beyond the most likely ones carry too little probability to matter
+const SCORELINES_PER_FIXTURE = 40;
+
+/**
+ * Mulberry32: a small, fast generator whose sequence is fixed by its seed
+ */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+interface SimulatedFixture {
+  home: number;
+  away: number;
+  /** Cumulative probabilities and the scorelines they lead to */
+  cumulative: number[];
+  scorelines: MatchPrediction['scorelines'];
+}
+
+/**
+ * Simulate the rest of a season
+ * Returns null when the model cannot be fitted (too few finished matches).
+ * @param standings - Current table, including any points deductions
+ * @param matches - The season's matches; finished ones fit the model, scheduled ones are simulated
+ */
+export const simulateSeason = (
+  standings: Standing[],
+  matches: Match[],
+  options: SeasonSimulationOptions = {}
+): SeasonProjection | null => {
+  const {
+    iterations = DEFAULT_SIMULATIONS,
+    seed = Math.floor(Math.random() * 4294967296),
+    pointsForWin = 3,
+    pointsForDraw = 1
+  } = options;
+
+  const model = fitPredictionModel(matches);
+  if (!model || standings.length === 0) return null;
+
+  // Fixture teams are found by key, or by name when providers use different ids
+  const indexByKey = new Map<string, number>();
+  standings.forEach((row, index) => {
+    indexByKey.set(getTeamKey(row.team), index);
+    indexByKey.set(row.team.name, index);
+  });
+  const findTeam = (team: Team) => indexByKey.get(getTeamKey(team)) ?? indexByKey.get(team.name);
+
+  const fixtures: SimulatedFixture[] = matches
+    .filter(match => match.status === 'SCHEDULED')
+    .map(match => ({ match, home: findTeam(match.homeTeam), away: findTeam(match.awayTeam) }))
+    .filter(({ home, away }) => home !== undefined && away !== undefined)
+    .map(({ match, home, away }) => {
+      const { scorelines } = predictMatch(model, match, SCORELINES_PER_FIXTURE);
+      let total = 0;
+      const cumulative = scorelines.map(scoreline => (total += scoreline.probability));
+      return { home, away, cumulative: cumulative.map(value => value / total), scorelines };
+    });
+
+  const teamCount = standings.length;
+  const positionCounts = standings.map(() => new Array<number>(teamCount).fill(0));
+  const pointsTotals = new Array<number>(teamCount).fill(0);
+  const random = createRandom(seed);
+
+  const points = new Array<number>(teamCount);
+  const goalDifference = new Array<number>(teamCount);
+  const goalsFor = new Array<number>(teamCount);
+  const tiebreak = new Array<number>(teamCount);
+  const order = standings.map((_, index) => index);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    standings.forEach((row, index) => {
+      points[index] = row.points;
+      goalDifference[index] = row.goalDifference;
+      goalsFor[index] = row.goalsFor;
+      tiebreak[index] = random();
+    });
+
+    for (const fixture of fixtures) {
+      const draw = random();
+      let pick = 0;
+      while (pick < fixture.cumulative.length - 1 && fixture.cumulative[pick] < draw) pick++;
+      const { home: homeGoals, away: awayGoals } = fixture.scorelines[pick];
+
+      goalsFor[fixture.home] += homeGoals;
+      goalsFor[fixture.away] += awayGoals;
+      goalDifference[fixture.home] += homeGoals - awayGoals;
+      goalDifference[fixture.away] += awayGoals - homeGoals;
+      if (homeGoals > awayGoals) {
+        points[fixture.home] += pointsForWin;
+      } else if (homeGoals < awayGoals) {
+        points[fixture.away] += pointsForWin;
+      } else {
+        points[fixture.home] += pointsForDraw;
+        points[fixture.away] += pointsForDraw;
+      }
+    }
+
+    order.sort((a, b) =>
+      points[b] - points[a] ||
+      goalDifference[b] - goalDifference[a] ||
+      goalsFor[b] - goalsFor[a] ||
+      tiebreak[b] - tiebreak[a]
+    );
+    order.forEach((team, position) => {
+      positionCounts[team][position]++;
+      pointsTotals[team] += points[team];
+    });
+  }
+
+  return {
+    iterations,
+    remainingFixtures: fixtures.length,
+    teams: standings.map((row, index) => ({
+      team: row.team,
+      currentPoints: row.points,
+      expectedPoints: pointsTotals[index] / iterations,
+      positions: positionCounts[index].map(count => count / iterations)
+    }))
+  };
+};
+
+/**
+ * Probability of finishing between two positions (1-based, inclusive)
+ */
+export const getPositionRangeProbability = (projection: TeamProjection, from: number, to: number): number =>
+  projection.positions.slice(from - 1, to).reduce((sum, probability) => sum + probability, 0);
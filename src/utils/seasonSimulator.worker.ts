@@ -0,0 +1,29 @@
+/**
+ * Season Simulator Worker - Runs season simulations off the main thread
+ *
+ * Receives a SeasonSimulationRequest and answers with a SeasonSimulationResponse.
+ */
+
+import { Match, Standing } from '@/types/football';
+import { SeasonProjection, SeasonSimulationOptions, simulateSeason } from './seasonSimulator';
+
+export interface SeasonSimulationRequest {
+  standings: Standing[];
+  matches: Match[];
+  options?: SeasonSimulationOptions;
+}
+
+export type SeasonSimulationResponse =
+  | { projection: SeasonProjection | null }
+  | { error: string };
+
+self.onmessage = (event: MessageEvent<SeasonSimulationRequest>) => {
+  const { standings, matches, options } = event.data;
+  try {
+    const response: SeasonSimulationResponse = { projection: simulateSeason(standings, matches, options) };
+    self.postMessage(response);
+  } catch (error) {
+    const response: SeasonSimulationResponse = { error: error instanceof Error ? error.message : String(error) };
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,49 @@
+/**
+ * Seasons - Season label helpers
+ *
+ * Providers label seasons either as split years ("2024-2025") or, for
+ * calendar-year competitions such as MLS or the Brasileirão, as a single year
+ * ("2024"). These helpers order and mark seasons for both formats.
+ */
+
+import { Season } from '@/types/football';
+
+export const isCalendarYearSeason = (label: string): boolean => /^\d{4}$/.test(label);
+
+/**
+ * Year a season starts in, used for ordering
+ */
+export const getStartYear = (label: string): number => parseInt(label.match(/\d{4}/)?.[0] ?? '0', 10);
+
+/**
+ * Season running on a given date
+ * Split seasons roll over in July, calendar-year seasons in January
+ */
+export const getCurrentSeasonLabel = (calendarYear = false, now: Date = new Date()): string => {
+  const year = now.getFullYear();
+  if (calendarYear) return String(year);
+  return now.getMonth() >= 6 ? `${year}-${year + 1}` : `${year - 1}-${year}`;
+};
+
+/**
+ * Recent season labels, newest first, for when a provider has no season list
+ */
+export const getRecentSeasonLabels = (calendarYear = false, count = 3, now: Date = new Date()): string[] => {
+  const startYear = getStartYear(getCurrentSeasonLabel(calendarYear, now));
+  return Array.from({ length: count }, (_, index) => {
+    const year = startYear - index;
+    return calendarYear ? String(year) : `${year}-${year + 1}`;
+  });
+};
+
+/**
+ * Turn provider labels into Season entries, newest first
+ * The provider's current season is marked; without one the newest season is.
+ */
+export const toSeasons = (labels: string[], current?: string): Season[] => {
+  const unique = [...new Set(labels.filter(Boolean))]
+    .sort((a, b) => getStartYear(b) - getStartYear(a) || b.localeCompare(a));
+  const currentLabel = current && unique.includes(current) ? current : unique[0];
+
+  return unique.map(label => ({ label, current: label === currentLabel }));
+};
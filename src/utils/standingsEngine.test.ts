@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { Match, Team } from '@/types/football';
+import { computeStandings, coversTable } from './standingsEngine';
+import { TIEBREAK_RULE_SETS } from './tiebreakRules';
+
+const team = (name: string): Team => ({ id: name, name, shortName: name, tla: name.slice(0, 3).toUpperCase(), crest: '' });
+
+const result = (home: string, away: string, homeGoals: number, awayGoals: number, date = '2025-01-01'): Match => ({
+  id: `${home}-${away}-${date}`,
+  homeTeam: team(home),
+  awayTeam: team(away),
+  utcDate: `${date}T15:00:00Z`,
+  status: 'FINISHED',
+  score: { fullTime: { home: homeGoals, away: awayGoals } },
+  competition: { name: 'Test League' },
+  season: '2024-2025',
+  matchday: null
+});
+
+const order = (matches: Match[], rules: string) =>
+  computeStandings(matches, { tiebreakers: TIEBREAK_RULE_SETS[rules].criteria }).map(row => row.team.name);
+
+// Arsenal and Brentford finish level on 3 points; Brentford has the better
+// goal difference, Arsenal won the match between them
+const LEVEL_ON_POINTS = [
+  result('Arsenal', 'Brentford', 1, 0),
+  result('Brentford', 'Fulham', 5, 0),
+  result('Arsenal', 'Chelsea', 0, 1),
+  result('Chelsea', 'Fulham', 0, 0)
+];
+
+describe('computeStandings', () => {
+  it('counts points, goals and form from finished matches only', () => {
+    const scheduled: Match = { ...result('Fulham', 'Arsenal', 0, 0), status: 'SCHEDULED', score: { fullTime: { home: null, away: null } } };
+    const table = computeStandings([...LEVEL_ON_POINTS, scheduled]);
+    const arsenal = table.find(row => row.team.name === 'Arsenal');
+
+    expect(arsenal).toMatchObject({ playedGames: 2, won: 1, lost: 1, points: 3, goalsFor: 1, goalsAgainst: 1, goalDifference: 0 });
+    expect(table.map(row => row.position)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('separates teams level on points by goal difference before head-to-head', () => {
+    expect(order(LEVEL_ON_POINTS, 'goal-difference')).toEqual(['Chelsea', 'Brentford', 'Arsenal', 'Fulham']);
+  });
+
+  it('separates teams level on points by head-to-head before goal difference', () => {
+    const table = computeStandings(LEVEL_ON_POINTS, { tiebreakers: TIEBREAK_RULE_SETS['head-to-head'].criteria });
+
+    expect(table.map(row => row.team.name)).toEqual(['Chelsea', 'Arsenal', 'Brentford', 'Fulham']);
+    expect(table[1].rankReason).toEqual({ criterion: 'headToHeadPoints', value: 3, nextValue: 0, nextTeam: 'Brentford' });
+  });
+
+  it('builds the head-to-head mini-table from matches between the tied teams only', () => {
+    // Three teams on 6 points beat each other in turn and all beat Fulham;
+    // Chelsea's big win over Fulham does not count between the three
+    const matches = [
+      result('Arsenal', 'Brentford', 2, 0),
+      result('Brentford', 'Chelsea', 1, 0),
+      result('Chelsea', 'Arsenal', 1, 0),
+      result('Arsenal', 'Fulham', 1, 0),
+      result('Brentford', 'Fulham', 1, 0),
+      result('Chelsea', 'Fulham', 6, 0)
+    ];
+    const table = computeStandings(matches, { tiebreakers: TIEBREAK_RULE_SETS['head-to-head'].criteria });
+
+    expect(table.map(row => row.team.name)).toEqual(['Arsenal', 'Chelsea', 'Brentford', 'Fulham']);
+    expect(table[0].rankReason).toMatchObject({ criterion: 'headToHeadGoalDifference', value: 1, nextValue: 0 });
+    expect(table[1].rankReason).toMatchObject({ criterion: 'headToHeadGoalDifference', value: 0, nextValue: -1 });
+  });
+
+  it('settles a tie on every criterion by name', () => {
+    const table = computeStandings([result('Everton', 'Burnley', 1, 1)]);
+
+    expect(table.map(row => row.team.name)).toEqual(['Burnley', 'Everton']);
+    expect(table[0].rankReason).toMatchObject({ criterion: 'name' });
+  });
+});
+
+describe('computeStandings with points deductions', () => {
+  const deductions = [{ team: 'Everton', points: 4, reason: 'Breach of financial rules', date: '2025-02-01' }];
+  const january = result('Everton FC', 'Burnley FC', 1, 0, '2025-01-10');
+  const february = result('Burnley FC', 'Everton FC', 1, 0, '2025-02-10');
+
+  it('leaves a deduction out until a counted result is on or after its date', () => {
+    const everton = computeStandings([january], { deductions }).find(row => row.team.name === 'Everton FC');
+
+    expect(everton.points).toBe(3);
+    expect(everton.deductedPoints).toBeUndefined();
+  });
+
+  it('subtracts a deduction matched by name and ranks by the net points', () => {
+    const table = computeStandings([january, february], { deductions });
+
+    expect(table.map(row => row.team.name)).toEqual(['Burnley FC', 'Everton FC']);
+    expect(table[1]).toMatchObject({ points: -1, deductedPoints: 4, deductionReason: 'Breach of financial rules' });
+  });
+});
+
+describe('coversTable', () => {
+  it('holds only when every game the table counts is in the matches', () => {
+    const table = computeStandings(LEVEL_ON_POINTS);
+
+    expect(coversTable(table, LEVEL_ON_POINTS)).toBe(true);
+    expect(coversTable(table, LEVEL_ON_POINTS.slice(1))).toBe(false);
+  });
+});
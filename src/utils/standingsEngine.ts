@@ -0,0 +1,337 @@
+/**
+ * Standings Engine - League tables computed from match results
+ *
+ * Pure functions that build a full table (played, won, drawn, lost, goals,
+ * goal difference, points and form) from a list of matches. Only finished
+ * matches with a full-time score count. The output uses the normalized
+ * `Standing` type, so computed tables render in StandingsTable like provider ones.
+ *
+ * Ranking applies an ordered list of tiebreak criteria. Each criterion splits
+ * the teams still level into smaller groups; head-to-head criteria use a
+ * mini-table of the matches between the teams in that group only. Every row
+ * records the criterion that put it above the next row; `explainStandings`
+ * records the same for a table whose order is already final.
+ *
+ * Home, away and form tables use the same engine: `venue` keeps one side of
+ * each match and `lastMatches` keeps each team's latest results only.
+ *
+ * Points deductions are subtracted once the latest counted result is on or
+ * after the date they took effect, so a table of early results stays clean.
+ */
+
+import { Match, PointsDeduction, RankReason, Standing, Team, TeamRef, TiebreakCriterion } from '@/types/football';
+import { getTeamDeductions } from './pointsDeductions';
+
+export interface RankingOptions {
+  /** Criteria in the order they are applied; name order settles any remaining tie */
+  tiebreakers?: TiebreakCriterion[];
+  /** Results used for head-to-head and away criteria */
+  matches?: Match[];
+  pointsForWin?: number;
+  pointsForDraw?: number;
+}
+
+export interface StandingsEngineOptions extends RankingOptions {
+  /** Number of most recent results kept in `form` */
+  formLength?: number;
+  /** Teams listed even before they have played, e.g. from a teams endpoint */
+  teams?: Team[];
+  /** League sanctions subtracted from the teams' points */
+  deductions?: PointsDeduction[];
+  /** Count only home or only away matches */
+  venue?: 'home' | 'away';
+  /** Count only each team's latest N results */
+  lastMatches?: number;
+}
+
+export const DEFAULT_TIEBREAKERS: TiebreakCriterion[] = ['points', 'goalDifference', 'goalsFor'];
+
+type MatchResult = 'W' | 'D' | 'L';
+
+interface TeamRecord {
+  team: Team;
+  won: number;
+  draw: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  results: MatchResult[];
+}
+
+interface TeamGames {
+  team: Team;
+  /** Goals scored and conceded per match, oldest first */
+  games: [number, number][];
+}
+
+/**
+ * Identity of a team across tables and matches: the provider id, or the name without one
+ */
+export const getTeamKey = (team: TeamRef): string => team.id || team.name;
+
+/**
+ * Whether two team records describe the same team
+ * Falls back to the name, as results and tables of one provider may key teams differently.
+ */
+export const isSameTeam = (a: TeamRef, b: TeamRef): boolean => getTeamKey(a) === getTeamKey(b) || a.name === b.name;
+
+/**
+ * Whether a match counts towards the table
+ */
+export const isCompletedMatch = (match: Match): boolean =>
+  match.status === 'FINISHED' &&
+  typeof match.score?.fullTime?.home === 'number' &&
+  typeof match.score?.fullTime?.away === 'number';
+
+/**
+ * Whether the matches hold every result the table counts, so tables built from
+ * them agree with it
+ */
+export const coversTable = (table: Standing[], matches: Match[]): boolean => {
+  const games = table.reduce((total, row) => total + row.playedGames, 0) / 2;
+  const keys = new Set(table.map(row => getTeamKey(row.team)));
+  const results = matches.filter(match =>
+    isCompletedMatch(match) && keys.has(getTeamKey(match.homeTeam)) && keys.has(getTeamKey(match.awayTeam))
+  );
+  return games > 0 && results.length >= games;
+};
+
+interface MatchRecord {
+  points: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  wins: number;
+}
+
+/**
+ * Points and goals per team over a set of matches, optionally away matches only
+ */
+const tallyMatches = (matches: Match[], pointsForWin: number, pointsForDraw: number, awayOnly = false): Map<string, MatchRecord> => {
+  const records = new Map<string, MatchRecord>();
+
+  const add = (team: Team, scored: number, conceded: number) => {
+    const key = getTeamKey(team);
+    const record = records.get(key) ?? { points: 0, goalsFor: 0, goalsAgainst: 0, wins: 0 };
+    record.goalsFor += scored;
+    record.goalsAgainst += conceded;
+    if (scored > conceded) {
+      record.points += pointsForWin;
+      record.wins++;
+    } else if (scored === conceded) {
+      record.points += pointsForDraw;
+    }
+    records.set(key, record);
+  };
+
+  matches.filter(isCompletedMatch).forEach(match => {
+    const { home, away } = match.score.fullTime;
+    if (!awayOnly) add(match.homeTeam, home, away);
+    add(match.awayTeam, away, home);
+  });
+
+  return records;
+};
+
+/**
+ * Value of a criterion for every row of a group of teams level so far
+ */
+const getCriterionValues = (
+  criterion: TiebreakCriterion,
+  group: Standing[],
+  matches: Match[],
+  pointsForWin: number,
+  pointsForDraw: number
+): number[] => {
+  switch (criterion) {
+    case 'points':
+      return group.map(row => row.points);
+    case 'goalDifference':
+      return group.map(row => row.goalDifference);
+    case 'goalsFor':
+      return group.map(row => row.goalsFor);
+    case 'wins':
+      return group.map(row => row.won);
+  }
+
+  const isHeadToHead = criterion.startsWith('headToHead');
+  const keys = new Set(group.map(row => getTeamKey(row.team)));
+  const relevant = isHeadToHead
+    ? matches.filter(match => keys.has(getTeamKey(match.homeTeam)) && keys.has(getTeamKey(match.awayTeam)))
+    : matches;
+  const awayOnly = criterion === 'awayGoalsFor' || criterion === 'awayWins' || criterion === 'headToHeadAwayGoalsFor';
+  const records = tallyMatches(relevant, pointsForWin, pointsForDraw, awayOnly);
+
+  return group.map(row => {
+    const record = records.get(getTeamKey(row.team));
+    if (!record) return 0;
+    switch (criterion) {
+      case 'headToHeadPoints':
+        return record.points;
+      case 'headToHeadGoalDifference':
+        return record.goalsFor - record.goalsAgainst;
+      case 'awayWins':
+        return record.wins;
+      default:
+        return record.goalsFor;
+    }
+  });
+};
+
+/**
+ * Order rows with the given tiebreakers, number them and record why each row
+ * ranks above the next one
+ */
+export const rankStandings = (rows: Standing[], options: RankingOptions = {}): Standing[] => {
+  const { tiebreakers = DEFAULT_TIEBREAKERS, matches = [], pointsForWin = 3, pointsForDraw = 1 } = options;
+  // Reasons are keyed by the upper row; the team below is filled in once the order is final
+  const reasons = new Map<Standing, Omit<RankReason, 'nextTeam'>>();
+
+  const order = (group: Standing[], criteria: TiebreakCriterion[]): Standing[] => {
+    if (group.length <= 1) return group;
+
+    if (criteria.length === 0) {
+      const sorted = [...group].sort((a, b) => a.team.name.localeCompare(b.team.name));
+      sorted.slice(0, -1).forEach((row, index) => reasons.set(row, {
+        criterion: 'name',
+        value: row.team.name,
+        nextValue: sorted[index + 1].team.name
+      }));
+      return sorted;
+    }
+
+    const [criterion, ...rest] = criteria;
+    const values = getCriterionValues(criterion, group, matches, pointsForWin, pointsForDraw);
+    const buckets = new Map<number, Standing[]>();
+    group.forEach((row, index) => buckets.set(values[index], [...(buckets.get(values[index]) ?? []), row]));
+
+    const ordered = [...buckets.entries()].sort(([a], [b]) => b - a);
+    return ordered.flatMap(([value, bucket], index) => {
+      const ranked = order(bucket, rest);
+      const next = ordered[index + 1];
+      if (next) {
+        reasons.set(ranked[ranked.length - 1], { criterion, value, nextValue: next[0] });
+      }
+      return ranked;
+    });
+  };
+
+  const ranked = order(rows, tiebreakers);
+  return ranked.map((row, index) => ({
+    ...row,
+    position: index + 1,
+    rankReason: reasons.has(row) ? { ...reasons.get(row), nextTeam: ranked[index + 1].team.name } : undefined
+  }));
+};
+
+/**
+ * Record why each row ranks above the next one without changing the order
+ * Official tables keep the provider's order; a pair the criteria would order
+ * the other way, e.g. on head-to-head results missing from `matches`, gets no reason.
+ */
+export const explainStandings = (rows: Standing[], options: RankingOptions = {}): Standing[] => {
+  const { tiebreakers = DEFAULT_TIEBREAKERS, matches = [], pointsForWin = 3, pointsForDraw = 1 } = options;
+
+  const explain = (row: Standing, next: Standing): RankReason | undefined => {
+    // Narrow to the teams still level with the pair, as the ranking does
+    let group = rows;
+    for (const criterion of tiebreakers) {
+      const values = getCriterionValues(criterion, group, matches, pointsForWin, pointsForDraw);
+      const value = values[group.indexOf(row)];
+      const nextValue = values[group.indexOf(next)];
+      if (value !== nextValue) {
+        return value > nextValue ? { criterion, value, nextValue, nextTeam: next.team.name } : undefined;
+      }
+      group = group.filter((_, index) => values[index] === value);
+    }
+    return row.team.name.localeCompare(next.team.name) <= 0
+      ? { criterion: 'name', value: row.team.name, nextValue: next.team.name, nextTeam: next.team.name }
+      : undefined;
+  };
+
+  return rows.map((row, index) => ({
+    ...row,
+    rankReason: index < rows.length - 1 ? explain(row, rows[index + 1]) : undefined
+  }));
+};
+
+/**
+ * Build a ranked table from match results
+ * Form lists the latest results oldest first, so the newest result is on the right.
+ */
+export const computeStandings = (matches: Match[], options: StandingsEngineOptions = {}): Standing[] => {
+  const { pointsForWin = 3, pointsForDraw = 1, formLength = 5, teams = [], deductions = [], venue, lastMatches } = options;
+  const teamGames = new Map<string, TeamGames>();
+
+  const getGames = (team: Team): TeamGames => {
+    const key = getTeamKey(team);
+    let entry = teamGames.get(key);
+    if (!entry) {
+      entry = { team, games: [] };
+      teamGames.set(key, entry);
+    }
+    return entry;
+  };
+
+  const toRecord = ({ team, games }: TeamGames): TeamRecord => {
+    const record: TeamRecord = { team, won: 0, draw: 0, lost: 0, goalsFor: 0, goalsAgainst: 0, results: [] };
+    const counted = lastMatches ? games.slice(-lastMatches) : games;
+
+    counted.forEach(([scored, conceded]) => {
+      record.goalsFor += scored;
+      record.goalsAgainst += conceded;
+
+      if (scored > conceded) {
+        record.won++;
+        record.results.push('W');
+      } else if (scored === conceded) {
+        record.draw++;
+        record.results.push('D');
+      } else {
+        record.lost++;
+        record.results.push('L');
+      }
+    });
+
+    return record;
+  };
+
+  teams.forEach(getGames);
+
+  const completed = matches
+    .filter(isCompletedMatch)
+    .sort((a, b) => a.utcDate.localeCompare(b.utcDate));
+
+  completed.forEach(match => {
+    const { home, away } = match.score.fullTime;
+    if (venue !== 'away') getGames(match.homeTeam).games.push([home, away]);
+    if (venue !== 'home') getGames(match.awayTeam).games.push([away, home]);
+  });
+
+  const latestDate = completed.length > 0 ? completed[completed.length - 1].utcDate.slice(0, 10) : '';
+  const activeDeductions = deductions.filter(deduction => !deduction.date || deduction.date <= latestDate);
+
+  const rows: Standing[] = [...teamGames.values()].map(toRecord).map(record => {
+    const applied = getTeamDeductions(record.team.name, activeDeductions);
+    const deductedPoints = applied.reduce((total, deduction) => total + deduction.points, 0);
+
+    return {
+      position: 0,
+      team: record.team,
+      playedGames: record.won + record.draw + record.lost,
+      won: record.won,
+      draw: record.draw,
+      lost: record.lost,
+      points: record.won * pointsForWin + record.draw * pointsForDraw - deductedPoints,
+      goalsFor: record.goalsFor,
+      goalsAgainst: record.goalsAgainst,
+      goalDifference: record.goalsFor - record.goalsAgainst,
+      form: record.results.slice(-formLength).join('') || 'N/A',
+      ...(deductedPoints > 0 && {
+        deductedPoints,
+        deductionReason: applied.map(deduction => deduction.reason).join('; ')
+      })
+    };
+  });
+
+  return rankStandings(rows, { ...options, matches });
+};
@@ -0,0 +1,81 @@
+/**
+ * Standings History - Tables as they stood after each matchday
+ *
+ * A table after matchday N counts every finished match of rounds 1 to N,
+ * including postponed ones played later, so each round is complete. Tables
+ * are rebuilt with the standings engine using the competition's tiebreak
+ * rules and the points deductions in force on the last counted date.
+ */
+
+import { Match, Standing, Team } from '@/types/football';
+import { computeStandings, getTeamKey, isCompletedMatch, isSameTeam } from './standingsEngine';
+import { getTiebreakRuleSet } from './tiebreakRules';
+import { getPointsDeductions } from './pointsDeductions';
+
+/** Chart row: the matchday plus each team's position, keyed by team name */
+export type PositionHistoryRow = { matchday: number } & Record<string, number>;
+
+/**
+ * Matchdays with at least one finished match, in order
+ */
+export const getMatchdays = (matches: Match[]): number[] =>
+  [...new Set(
+    matches
+      .filter(match => isCompletedMatch(match) && typeof match.matchday === 'number')
+      .map(match => match.matchday)
+  )].sort((a, b) => a - b);
+
+export const getMatchesUpToMatchday = (matches: Match[], matchday: number): Match[] =>
+  matches.filter(match => typeof match.matchday === 'number' && match.matchday <= matchday);
+
+/**
+ * Overall table from results, ranked with the competition's rules
+ */
+export const computeCompetitionTable = (matches: Match[], competition: string, season?: string): Standing[] =>
+  computeStandings(matches, {
+    tiebreakers: getTiebreakRuleSet(competition).criteria,
+    deductions: getPointsDeductions(competition, season)
+  });
+
+/**
+ * Set `positionChange` on each row against an earlier table
+ * Teams are matched by id, then by name; teams missing from the earlier table get no change.
+ */
+export const withPositionChanges = (table: Standing[], previous: Standing[]): Standing[] => {
+  if (previous.length === 0) return table;
+
+  const byKey = new Map(previous.map(row => [getTeamKey(row.team), row.position]));
+  const byName = new Map(previous.map(row => [row.team.name, row.position]));
+
+  return table.map(row => {
+    const before = byKey.get(getTeamKey(row.team)) ?? byName.get(row.team.name);
+    return before === undefined ? row : { ...row, positionChange: before - row.position };
+  });
+};
+
+/**
+ * Every team's position after each matchday
+ */
+export const getPositionHistory = (matches: Match[], competition: string, season?: string): PositionHistoryRow[] =>
+  getMatchdays(matches).map(matchday => {
+    const table = computeCompetitionTable(getMatchesUpToMatchday(matches, matchday), competition, season);
+    const row = { matchday } as PositionHistoryRow;
+    table.forEach(standing => {
+      row[standing.team.name] = standing.position;
+    });
+    return row;
+  });
+
+/** A team's table row as it stood after one matchday */
+export type TeamStandingsRow = Standing & { matchday: number };
+
+/**
+ * One team's table row after each matchday it appears in
+ * The team is matched by id or name, see `isSameTeam`.
+ */
+export const getTeamStandingsHistory = (matches: Match[], competition: string, team: Team, season?: string): TeamStandingsRow[] =>
+  getMatchdays(matches).flatMap(matchday => {
+    const table = computeCompetitionTable(getMatchesUpToMatchday(matches, matchday), competition, season);
+    const row = table.find(standing => isSameTeam(standing.team, team));
+    return row ? [{ ...row, matchday }] : [];
+  });
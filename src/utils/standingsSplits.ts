@@ -0,0 +1,74 @@
+/**
+ * Standings Splits - Home, away and form tables
+ *
+ * Providers publish an overall table and sometimes home and away ones. Any
+ * split the provider does not publish is computed from the season's results
+ * with the standings engine; the form table always is, over each team's
+ * latest matches. Tables for an earlier matchday are always rebuilt from the
+ * results up to that round.
+ */
+
+import { Match, Standing, StandingsResponse } from '@/types/football';
+import { computeStandings, isCompletedMatch } from './standingsEngine';
+import { computeCompetitionTable, getMatchesUpToMatchday } from './standingsHistory';
+
+export type StandingsSplit = 'TOTAL' | 'HOME' | 'AWAY' | 'FORM';
+
+export const STANDINGS_SPLITS: { id: StandingsSplit; label: string }[] = [
+  { id: 'TOTAL', label: 'Overall' },
+  { id: 'HOME', label: 'Home' },
+  { id: 'AWAY', label: 'Away' },
+  { id: 'FORM', label: 'Form' }
+];
+
+export const FORM_TABLE_LENGTHS = [3, 4, 5, 6, 8, 10];
+export const DEFAULT_FORM_TABLE_LENGTH = 6;
+
+export interface SplitTableOptions {
+  /** Matches per team in the form table */
+  formLength?: number;
+  /** Rebuild the table as it stood after this matchday instead of showing the latest one */
+  matchday?: number;
+}
+
+const getProviderTable = (data: StandingsResponse, split: StandingsSplit): Standing[] | undefined =>
+  data.standings.find(group => group.type === split)?.table;
+
+/**
+ * Whether a split can be shown: published by the provider or computable from results
+ */
+export const isSplitAvailable = (data: StandingsResponse, matches: Match[], split: StandingsSplit): boolean => {
+  if (split === 'TOTAL') return true;
+  if (split !== 'FORM' && getProviderTable(data, split)?.length) return true;
+  return matches.some(isCompletedMatch);
+};
+
+/**
+ * Table for a split
+ * The overall table falls back to the first group for providers that do not
+ * label their tables; teams without a match in the split are left out.
+ */
+export const getSplitTable = (
+  data: StandingsResponse,
+  matches: Match[],
+  split: StandingsSplit,
+  options: SplitTableOptions = {}
+): Standing[] => {
+  const { formLength = DEFAULT_FORM_TABLE_LENGTH, matchday } = options;
+  const counted = matchday === undefined ? matches : getMatchesUpToMatchday(matches, matchday);
+
+  if (split === 'FORM') {
+    return computeStandings(counted, { lastMatches: formLength, formLength });
+  }
+
+  if (matchday === undefined) {
+    const published = split === 'TOTAL'
+      ? getProviderTable(data, 'TOTAL') ?? data.standings[0]?.table ?? []
+      : getProviderTable(data, split);
+    if (split === 'TOTAL' || published?.length) return published;
+  } else if (split === 'TOTAL') {
+    return computeCompetitionTable(counted, data.competition.code, data.season);
+  }
+
+  return computeStandings(counted, { venue: split === 'HOME' ? 'home' : 'away' });
+};
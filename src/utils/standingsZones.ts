@@ -0,0 +1,239 @@
+/**
+ * Standings Zones - Qualification and relegation places per competition
+ *
+ * Each competition lists its zones by season, because place allocations change
+ * (extra Champions League spots, a league shrinking from 20 to 18 teams).
+ * Positions may be negative to count from the bottom, so relegation places
+ * follow the table size. Places passed down when a cup winner already
+ * qualified are not modelled; the zones show the league's standard allocation.
+ */
+
+import { getStartYear } from './seasons';
+
+export type ZoneColor = 'green' | 'lime' | 'blue' | 'cyan' | 'orange' | 'red';
+
+export interface StandingsZone {
+  label: string;
+  color: ZoneColor;
+  /** First and last position of the zone; -1 is the last place */
+  from: number;
+  to: number;
+  /** The place leads to a playoff rather than a direct move */
+  playoff?: boolean;
+}
+
+interface ZoneSchedule {
+  /** First and last season the zones apply to; open-ended when omitted */
+  fromSeason?: string;
+  toSeason?: string;
+  zones: StandingsZone[];
+}
+
+export const ZONE_STYLES: Record<ZoneColor, { cell: string; swatch: string }> = {
+  green: { cell: 'text-green-600 font-bold bg-green-50', swatch: 'bg-green-100 border-green-300' },
+  lime: { cell: 'text-lime-700 font-bold bg-lime-50', swatch: 'bg-lime-100 border-lime-300' },
+  blue: { cell: 'text-blue-600 font-bold bg-blue-50', swatch: 'bg-blue-100 border-blue-300' },
+  cyan: { cell: 'text-cyan-700 font-bold bg-cyan-50', swatch: 'bg-cyan-100 border-cyan-300' },
+  orange: { cell: 'text-orange-600 font-bold bg-orange-50', swatch: 'bg-orange-100 border-orange-300' },
+  red: { cell: 'text-red-600 font-bold bg-red-50', swatch: 'bg-red-100 border-red-300' }
+};
+
+const CHAMPIONS_LEAGUE = 'Champions League';
+const CHAMPIONS_LEAGUE_QUALIFYING = 'Champions League qualifying';
+const EUROPA_LEAGUE = 'Europa League';
+const CONFERENCE_LEAGUE = 'Conference League';
+const RELEGATION = 'Relegation';
+const RELEGATION_PLAYOFF = 'Relegation playoff';
+
+const COMPETITION_ZONES: Record<string, ZoneSchedule[]> = {
+  PL: [
+    {
+      zones: [
+        { label: CHAMPIONS_LEAGUE, color: 'green', from: 1, to: 4 },
+        { label: EUROPA_LEAGUE, color: 'blue', from: 5, to: 5 },
+        { label: CONFERENCE_LEAGUE, color: 'cyan', from: 6, to: 6 },
+        { label: RELEGATION, color: 'red', from: -3, to: -1 }
+      ]
+    },
+    {
+      // England earned an extra Champions League place for 2025-26
+      fromSeason: '2024-2025',
+      toSeason: '2024-2025',
+      zones: [
+        { label: CHAMPIONS_LEAGUE, color: 'green', from: 1, to: 5 },
+        { label: EUROPA_LEAGUE, color: 'blue', from: 6, to: 6 },
+        { label: CONFERENCE_LEAGUE, color: 'cyan', from: 7, to: 7 },
+        { label: RELEGATION, color: 'red', from: -3, to: -1 }
+      ]
+    }
+  ],
+  PD: [
+    {
+      zones: [
+        { label: CHAMPIONS_LEAGUE, color: 'green', from: 1, to: 4 },
+        { label: EUROPA_LEAGUE, color: 'blue', from: 5, to: 6 },
+        { label: CONFERENCE_LEAGUE, color: 'cyan', from: 7, to: 7 },
+        { label: RELEGATION, color: 'red', from: -3, to: -1 }
+      ]
+    }
+  ],
+  SA: [
+    {
+      zones: [
+        { label: CHAMPIONS_LEAGUE, color: 'green', from: 1, to: 4 },
+        { label: EUROPA_LEAGUE, color: 'blue', from: 5, to: 6 },
+        { label: CONFERENCE_LEAGUE, color: 'cyan', from: 7, to: 7 },
+        { label: RELEGATION, color: 'red', from: -3, to: -1 }
+      ]
+    },
+    {
+      // Italy earned an extra Champions League place for 2024-25
+      fromSeason: '2023-2024',
+      toSeason: '2023-2024',
+      zones: [
+        { label: CHAMPIONS_LEAGUE, color: 'green', from: 1, to: 5 },
+        { label: EUROPA_LEAGUE, color: 'blue', from: 6, to: 7 },
+        { label: CONFERENCE_LEAGUE, color: 'cyan', from: 8, to: 8 },
+        { label: RELEGATION, color: 'red', from: -3, to: -1 }
+      ]
+    }
+  ],
+  BL1: [
+    {
+      zones: [
+        { label: CHAMPIONS_LEAGUE, color: 'green', from: 1, to: 4 },
+        { label: EUROPA_LEAGUE, color: 'blue', from: 5, to: 5 },
+        { label: CONFERENCE_LEAGUE, color: 'cyan', from: 6, to: 6 },
+        { label: RELEGATION_PLAYOFF, color: 'orange', from: -3, to: -3, playoff: true },
+        { label: RELEGATION, color: 'red', from: -2, to: -1 }
+      ]
+    },
+    {
+      // Germany earned an extra Champions League place for 2024-25
+      fromSeason: '2023-2024',
+      toSeason: '2023-2024',
+      zones: [
+        { label: CHAMPIONS_LEAGUE, color: 'green', from: 1, to: 5 },
+        { label: EUROPA_LEAGUE, color: 'blue', from: 6, to: 6 },
+        { label: CONFERENCE_LEAGUE, color: 'cyan', from: 7, to: 7 },
+        { label: RELEGATION_PLAYOFF, color: 'orange', from: -3, to: -3, playoff: true },
+        { label: RELEGATION, color: 'red', from: -2, to: -1 }
+      ]
+    }
+  ],
+  FL1: [
+    {
+      // 20-team league with a single relegation playoff place
+      toSeason: '2021-2022',
+      zones: [
+        { label: CHAMPIONS_LEAGUE, color: 'green', from: 1, to: 2 },
+        { label: CHAMPIONS_LEAGUE_QUALIFYING, color: 'lime', from: 3, to: 3, playoff: true },
+        { label: EUROPA_LEAGUE, color: 'blue', from: 4, to: 4 },
+        { label: CONFERENCE_LEAGUE, color: 'cyan', from: 5, to: 5 },
+        { label: RELEGATION_PLAYOFF, color: 'orange', from: -3, to: -3, playoff: true },
+        { label: RELEGATION, color: 'red', from: -2, to: -1 }
+      ]
+    },
+    {
+      // Four teams went down directly while the league shrank to 18
+      fromSeason: '2022-2023',
+      toSeason: '2022-2023',
+      zones: [
+        { label: CHAMPIONS_LEAGUE, color: 'green', from: 1, to: 2 },
+        { label: CHAMPIONS_LEAGUE_QUALIFYING, color: 'lime', from: 3, to: 3, playoff: true },
+        { label: EUROPA_LEAGUE, color: 'blue', from: 4, to: 4 },
+        { label: CONFERENCE_LEAGUE, color: 'cyan', from: 5, to: 5 },
+        { label: RELEGATION, color: 'red', from: -4, to: -1 }
+      ]
+    },
+    {
+      fromSeason: '2023-2024',
+      zones: [
+        { label: CHAMPIONS_LEAGUE, color: 'green', from: 1, to: 3 },
+        { label: CHAMPIONS_LEAGUE_QUALIFYING, color: 'lime', from: 4, to: 4, playoff: true },
+        { label: EUROPA_LEAGUE, color: 'blue', from: 5, to: 5 },
+        { label: CONFERENCE_LEAGUE, color: 'cyan', from: 6, to: 6 },
+        { label: RELEGATION_PLAYOFF, color: 'orange', from: -3, to: -3, playoff: true },
+        { label: RELEGATION, color: 'red', from: -2, to: -1 }
+      ]
+    }
+  ],
+  DED: [
+    {
+      zones: [
+        { label: CHAMPIONS_LEAGUE, color: 'green', from: 1, to: 2 },
+        { label: CHAMPIONS_LEAGUE_QUALIFYING, color: 'lime', from: 3, to: 3, playoff: true },
+        { label: EUROPA_LEAGUE, color: 'blue', from: 4, to: 4 },
+        { label: `${CONFERENCE_LEAGUE} playoffs`, color: 'cyan', from: 5, to: 8, playoff: true },
+        { label: RELEGATION_PLAYOFF, color: 'orange', from: -3, to: -2, playoff: true },
+        { label: RELEGATION, color: 'red', from: -1, to: -1 }
+      ]
+    }
+  ],
+  PPL: [
+    {
+      zones: [
+        { label: CHAMPIONS_LEAGUE, color: 'green', from: 1, to: 1 },
+        { label: CHAMPIONS_LEAGUE_QUALIFYING, color: 'lime', from: 2, to: 2, playoff: true },
+        { label: EUROPA_LEAGUE, color: 'blue', from: 3, to: 3 },
+        { label: CONFERENCE_LEAGUE, color: 'cyan', from: 4, to: 4 },
+        { label: RELEGATION_PLAYOFF, color: 'orange', from: -3, to: -3, playoff: true },
+        { label: RELEGATION, color: 'red', from: -2, to: -1 }
+      ]
+    }
+  ],
+  CL: [
+    {
+      // Groups of four
+      toSeason: '2023-2024',
+      zones: [
+        { label: 'Round of 16', color: 'green', from: 1, to: 2 },
+        { label: EUROPA_LEAGUE, color: 'blue', from: 3, to: 3 }
+      ]
+    },
+    {
+      // Single 36-team league phase
+      fromSeason: '2024-2025',
+      zones: [
+        { label: 'Round of 16', color: 'green', from: 1, to: 8 },
+        { label: 'Knockout phase playoffs', color: 'lime', from: 9, to: 24, playoff: true },
+        { label: 'Eliminated', color: 'red', from: 25, to: 36 }
+      ]
+    }
+  ],
+  BSA: [
+    {
+      zones: [
+        { label: 'Copa Libertadores', color: 'green', from: 1, to: 4 },
+        { label: 'Copa Libertadores qualifying', color: 'lime', from: 5, to: 6, playoff: true },
+        { label: 'Copa Sudamericana', color: 'blue', from: 7, to: 12 },
+        { label: RELEGATION, color: 'red', from: -4, to: -1 }
+      ]
+    }
+  ]
+};
+
+const appliesTo = (schedule: ZoneSchedule, startYear: number): boolean =>
+  (!schedule.fromSeason || getStartYear(schedule.fromSeason) <= startYear) &&
+  (!schedule.toSeason || getStartYear(schedule.toSeason) >= startYear);
+
+/**
+ * Zones of a competition for a season, with positions resolved for the table size
+ * The most specific matching schedule wins: later entries override earlier ones.
+ * Competitions without zone definitions return an empty list.
+ */
+export const getStandingsZones = (competition: string, season: string | undefined, tableSize: number): StandingsZone[] => {
+  const schedules = COMPETITION_ZONES[competition] ?? [];
+  const startYear = season ? getStartYear(season) : Number.MAX_SAFE_INTEGER;
+  const schedule = [...schedules].reverse().find(entry => appliesTo(entry, startYear));
+  if (!schedule || tableSize === 0) return [];
+
+  const resolve = (position: number) => position < 0 ? tableSize + 1 + position : position;
+
+  return schedule.zones
+    .map(zone => ({ ...zone, from: resolve(zone.from), to: Math.min(resolve(zone.to), tableSize) }))
+    .filter(zone => zone.from >= 1 && zone.from <= zone.to);
+};
+
+export const getZoneForPosition = (zones: StandingsZone[], position: number): StandingsZone | undefined =>
+  zones.find(zone => position >= zone.from && position <= zone.to);
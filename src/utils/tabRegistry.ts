@@ -0,0 +1,75 @@
+/**
+ * TabRegistry Class - Declarative tab definitions
+ *
+ * Each tab of the Data page is registered once with its id, label, icon,
+ * React Query key, loader and renderer. The page builds its navigation and
+ * content from the registry, so adding a tab is a single `register` call.
+ *
+ * Author: Georgio Elias
+ * Course: Full Stack Development - Lebanese University
+ * Custom Requirement: Implement tabbed navigation using JavaScript
+ */
+
+import type { ReactNode } from 'react';
+import type { LucideIcon } from 'lucide-react';
+import type { QueryKey } from '@tanstack/react-query';
+import type FootballAPI from './footballApi';
+import { Match } from '@/types/football';
+
+/**
+ * Selections a tab loads and renders for
+ */
+export interface TabContext {
+  competition: string;
+  competitionName: string;
+  season: string;
+  /** Selected matchday filter, `all` when unfiltered */
+  matchday: string;
+}
+
+export interface TabDefinition<TData = unknown> {
+  id: string;
+  label: string;
+  icon: LucideIcon;
+  /** Cache key; must include every context value the loader depends on */
+  queryKey(context: TabContext): QueryKey;
+  load(api: FootballAPI, context: TabContext, signal: AbortSignal): Promise<TData>;
+  render(data: TData, context: TabContext): ReactNode;
+  /** Interval used while auto refresh is on, defaults to 30 seconds */
+  refetchInterval?: number;
+  /** Matches offered to the matchday filter; tabs without it hide the filter */
+  getMatches?(data: TData): Match[];
+}
+
+class TabRegistry {
+  private tabs = new Map<string, TabDefinition>();
+
+  /**
+   * Add a tab; tabs appear in registration order
+   * @param tab - Tab definition, typed by the data its loader returns
+   */
+  register<TData>(tab: TabDefinition<TData>): this {
+    if (this.tabs.has(tab.id)) {
+      console.warn(`[TabRegistry] Tab "${tab.id}" is already registered and will be replaced`);
+    }
+    this.tabs.set(tab.id, tab as TabDefinition);
+    return this;
+  }
+
+  get(tabId: string): TabDefinition | undefined {
+    return this.tabs.get(tabId);
+  }
+
+  getAll(): TabDefinition[] {
+    return [...this.tabs.values()];
+  }
+
+  /**
+   * Id of the first registered tab, used as the default selection
+   */
+  getDefaultId(): string {
+    return this.getAll()[0]?.id;
+  }
+}
+
+export default TabRegistry;
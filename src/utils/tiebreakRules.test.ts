@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { Match, Standing, StandingsResponse } from '@/types/football';
+import { applyTiebreakRules, describeRankReason } from './tiebreakRules';
+
+const row = (name: string, points: number, goalsFor: number, goalsAgainst: number): Standing => ({
+  position: 0,
+  team: { id: name, name, shortName: name, tla: name.slice(0, 3).toUpperCase(), crest: '' },
+  playedGames: 2,
+  won: 0,
+  draw: 0,
+  lost: 0,
+  points,
+  goalsFor,
+  goalsAgainst,
+  goalDifference: goalsFor - goalsAgainst,
+  form: ''
+});
+
+const result = (home: string, away: string, homeGoals: number, awayGoals: number): Match => ({
+  id: `${home}-${away}`,
+  homeTeam: { id: home, name: home, shortName: home, tla: '', crest: '' },
+  awayTeam: { id: away, name: away, shortName: away, tla: '', crest: '' },
+  utcDate: '2025-01-01T15:00:00Z',
+  status: 'FINISHED',
+  score: { fullTime: { home: homeGoals, away: awayGoals } },
+  competition: { name: 'Premier League' },
+  season: '2024-2025',
+  matchday: null
+});
+
+// The provider lists Brentford above Arsenal although Arsenal have the better goal difference
+const officialTable = (): StandingsResponse => ({
+  standings: [{ stage: 'REGULAR_SEASON', type: 'TOTAL', table: [row('Brentford', 4, 3, 2), row('Arsenal', 4, 3, 1), row('Chelsea', 1, 1, 4)] }],
+  competition: { name: 'Premier League', code: 'PL' },
+  season: '2024-2025'
+});
+
+const names = (data: StandingsResponse) => data.standings[0].table.map(standing => standing.team.name);
+
+describe('applyTiebreakRules', () => {
+  it("keeps the provider's order when the results do not cover the table", () => {
+    const ranked = applyTiebreakRules(officialTable(), 'PL', [result('Arsenal', 'Brentford', 1, 1)]);
+    const [brentford, arsenal] = ranked.standings[0].table;
+
+    expect(names(ranked)).toEqual(['Brentford', 'Arsenal', 'Chelsea']);
+    // The rules would put Arsenal first, so that pair is left unexplained
+    expect(brentford.rankReason).toBeUndefined();
+    expect(arsenal.rankReason).toMatchObject({ criterion: 'points', value: 4, nextValue: 1, nextTeam: 'Chelsea' });
+  });
+
+  it('re-ranks the table with the competition rules when every result is present', () => {
+    const matches = [result('Arsenal', 'Brentford', 1, 1), result('Arsenal', 'Chelsea', 2, 0), result('Brentford', 'Chelsea', 2, 1)];
+    const ranked = applyTiebreakRules(officialTable(), 'PL', matches);
+
+    expect(names(ranked)).toEqual(['Arsenal', 'Brentford', 'Chelsea']);
+    expect(describeRankReason(ranked.standings[0].table[0].rankReason)).toBe('Above Brentford on goal difference: +2 vs +1.');
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tiebreak Rules - How each competition orders teams level on points
+ *
+ * Rule sets are referenced by id from the competition catalog
+ * (`tiebreakRules` in competitionConfig.ts); competitions without one use
+ * goal difference then goals scored. The standings engine applies the
+ * criteria in order and records which one separated each pair of teams.
+ */
+
+import { Match, RankReason, StandingsResponse, TiebreakCriterion } from '@/types/football';
+import { competitionCatalog } from './competitionCatalog';
+import { coversTable, explainStandings, rankStandings } from './standingsEngine';
+
+export interface TiebreakRuleSet {
+  name: string;
+  criteria: TiebreakCriterion[];
+}
+
+export const DEFAULT_RULE_SET = 'goal-difference';
+
+export const TIEBREAK_RULE_SETS: Record<string, TiebreakRuleSet> = {
+  'goal-difference': {
+    name: 'Goal difference, goals scored, then head-to-head',
+    criteria: ['points', 'goalDifference', 'goalsFor', 'headToHeadPoints', 'headToHeadAwayGoalsFor']
+  },
+  'head-to-head': {
+    name: 'Head-to-head, then goal difference',
+    criteria: ['points', 'headToHeadPoints', 'headToHeadGoalDifference', 'goalDifference', 'goalsFor']
+  },
+  'bundesliga': {
+    name: 'Goal difference, goals scored, head-to-head, then away goals',
+    criteria: ['points', 'goalDifference', 'goalsFor', 'headToHeadPoints', 'headToHeadAwayGoalsFor', 'awayGoalsFor']
+  },
+  'ligue-1': {
+    name: 'Goal difference, head-to-head, then goals scored',
+    criteria: ['points', 'goalDifference', 'headToHeadPoints', 'headToHeadGoalDifference', 'headToHeadGoalsFor', 'goalsFor']
+  },
+  'wins-first': {
+    name: 'Wins, goal difference, then goals scored',
+    criteria: ['points', 'wins', 'goalDifference', 'goalsFor', 'headToHeadPoints']
+  },
+  'uefa-league-phase': {
+    name: 'Goal difference, goals scored, away goals, then wins',
+    criteria: ['points', 'goalDifference', 'goalsFor', 'awayGoalsFor', 'wins', 'awayWins']
+  }
+};
+
+const CRITERION_LABELS: Record<RankReason['criterion'], string> = {
+  points: 'points',
+  goalDifference: 'goal difference',
+  goalsFor: 'goals scored',
+  wins: 'wins',
+  awayGoalsFor: 'away goals scored',
+  awayWins: 'away wins',
+  headToHeadPoints: 'head-to-head points',
+  headToHeadGoalDifference: 'head-to-head goal difference',
+  headToHeadGoalsFor: 'head-to-head goals scored',
+  headToHeadAwayGoalsFor: 'head-to-head away goals',
+  name: 'name'
+};
+
+/**
+ * Rule set for a competition, falling back to the default rules
+ */
+export const getTiebreakRuleSet = (competition: string): TiebreakRuleSet => {
+  const ruleSetId = competitionCatalog.get(competition)?.tiebreakRules ?? DEFAULT_RULE_SET;
+  return TIEBREAK_RULE_SETS[ruleSetId] ?? TIEBREAK_RULE_SETS[DEFAULT_RULE_SET];
+};
+
+/**
+ * Sentence explaining why a team ranks above the next one
+ */
+export const describeRankReason = (reason: RankReason): string => {
+  if (reason.criterion === 'name') {
+    return `Level with ${reason.nextTeam} on every tiebreaker; listed alphabetically.`;
+  }
+
+  const format = (value: number | string) =>
+    reason.criterion.endsWith('GoalDifference') || reason.criterion === 'goalDifference'
+      ? `${Number(value) > 0 ? '+' : ''}${value}`
+      : value;
+
+  const label = CRITERION_LABELS[reason.criterion];
+  return `Above ${reason.nextTeam} on ${label}: ${format(reason.value)} vs ${format(reason.nextValue)}.`;
+};
+
+/**
+ * Re-rank the overall tables of a standings response with the competition's rules
+ * Only a table whose every result is in `matches` is re-ranked, as head-to-head
+ * and away criteria would otherwise work from part of the season; other tables
+ * keep the provider's order and just record why each team is above the next.
+ */
+export const applyTiebreakRules = (data: StandingsResponse, competition: string, matches: Match[] = []): StandingsResponse => {
+  const { criteria } = getTiebreakRuleSet(competition);
+  const options = { tiebreakers: criteria, matches };
+
+  return {
+    ...data,
+    standings: data.standings.map(group => group.type === 'TOTAL'
+      ? { ...group, table: coversTable(group.table, matches) ? rankStandings(group.table, options) : explainStandings(group.table, options) }
+      : group
+    )
+  };
+};
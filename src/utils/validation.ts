@@ -0,0 +1,128 @@
+/**
+ * Payload Validation - zod helpers and structured issue reporting
+ *
+ * API payloads are validated row by row: malformed rows are dropped and
+ * recorded as ValidationIssues instead of being coerced to zeros, while a
+ * payload whose overall shape is wrong raises a ValidationError.
+ */
+
+import { z } from 'zod';
+
+export interface ValidationIssue {
+  /** Where the payload came from, e.g. `TheSportsDB` or `normalized` */
+  source: string;
+  /** Endpoint or method that produced the payload */
+  context: string;
+  /** Row index inside a list payload, when the issue is row specific */
+  index?: number;
+  /** Dotted path of the offending field */
+  path: string;
+  message: string;
+  timestamp: number;
+}
+
+export class ValidationError extends Error {
+  public issues: ValidationIssue[];
+
+  constructor(context: string, issues: ValidationIssue[]) {
+    super(`Invalid payload from ${context}: ${issues.map(issue => `${issue.path} ${issue.message}`).join('; ')}`);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+type IssueListener = (issues: ValidationIssue[]) => void;
+
+/**
+ * Collects validation issues so the UI can surface them
+ */
+class ValidationReporter {
+  private issues: ValidationIssue[] = [];
+  private listeners = new Set<IssueListener>();
+  private maxIssues = 200;
+
+  report(issues: ValidationIssue[]): void {
+    if (issues.length === 0) return;
+
+    issues.forEach(issue => console.warn(`⚠️ [${issue.source}] ${issue.context}${issue.index !== undefined ? `[${issue.index}]` : ''} ${issue.path}: ${issue.message}`));
+    this.issues = [...this.issues, ...issues].slice(-this.maxIssues);
+    this.listeners.forEach(listener => listener(this.issues));
+  }
+
+  getIssues(): ValidationIssue[] {
+    return this.issues;
+  }
+
+  clear(): void {
+    this.issues = [];
+    this.listeners.forEach(listener => listener(this.issues));
+  }
+
+  subscribe(listener: IssueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const validationReporter = new ValidationReporter();
+
+const toIssues = (error: z.ZodError, source: string, context: string, index?: number): ValidationIssue[] =>
+  error.issues.map(issue => ({
+    source,
+    context,
+    index,
+    path: issue.path.join('.') || '(root)',
+    message: issue.message,
+    timestamp: Date.now()
+  }));
+
+/**
+ * Validate a whole payload; throws a ValidationError if it does not match
+ */
+export const validatePayload = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: unknown, source: string, context: string): T => {
+  const result = schema.safeParse(data);
+
+  if (!result.success) {
+    const issues = toIssues(result.error, source, context);
+    validationReporter.report(issues);
+    throw new ValidationError(context, issues);
+  }
+
+  return result.data;
+};
+
+/**
+ * Validate each row of a list; invalid rows are reported and skipped
+ */
+export const validateRows = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, rows: unknown[], source: string, context: string): T[] => {
+  const valid: T[] = [];
+  const issues: ValidationIssue[] = [];
+
+  rows.forEach((row, index) => {
+    const result = schema.safeParse(row);
+    if (result.success) {
+      valid.push(result.data);
+    } else {
+      issues.push(...toIssues(result.error, source, context, index));
+    }
+  });
+
+  validationReporter.report(issues);
+  return valid;
+};
+
+/**
+ * Envelope check: the list key may be missing or null, but if present it
+ * must be an array
+ */
+export const listEnvelope = (key: string) =>
+  z.object({ [key]: z.array(z.unknown()).nullish() }).passthrough();
+
+/**
+ * Integer field that may arrive as a number or a numeric string ("15", "-3", "+21")
+ */
+export const numericField = z
+  .union([z.number(), z.string().trim().regex(/^[+-]?\d+$/, 'Expected a numeric string')])
+  .transform(value => Number(value));
@@ -0,0 +1,226 @@
+/**
+ * What-If Scenarios - Hypothetical results for the remaining fixtures
+ *
+ * A scenario is a set of scores for scheduled matches. Applying it adds each
+ * hypothetical result to the current table and re-ranks it with the
+ * competition's tiebreak rules, so head-to-head criteria see the invented
+ * results too. The resulting rows carry `positionChange` and `pointsChange`
+ * against the actual table.
+ *
+ * Scenarios can be saved by name in localStorage and shared as a URL
+ * parameter; `encodeScenario` and `decodeScenario` convert between the two.
+ */
+
+import { z } from 'zod';
+import { Match, Standing } from '@/types/football';
+import { getTeamKey, isCompletedMatch, rankStandings } from './standingsEngine';
+import { withPositionChanges } from './standingsHistory';
+import { getTiebreakRuleSet } from './tiebreakRules';
+
+export interface ScenarioScore {
+  home: number;
+  away: number;
+}
+
+/** Hypothetical scores keyed by match id */
+export type ScenarioScores = Record<string, ScenarioScore>;
+
+export interface WhatIfScenario {
+  id: string;
+  name: string;
+  competition: string;
+  season: string;
+  scores: ScenarioScores;
+  savedAt: string;
+}
+
+/** URL parameter holding a shared scenario */
+export const SCENARIO_URL_PARAM = 'scenario';
+
+type ScenariosListener = () => void;
+
+const STORAGE_KEY = 'footballytics-what-if-scenarios';
+const FORM_LENGTH = 5;
+
+/**
+ * Current table with the scenario's results added, re-ranked
+ * Scores for matches that are no longer scheduled are ignored, so a scenario
+ * stays valid once real results come in.
+ */
+export const applyScenario = (standings: Standing[], matches: Match[], scores: ScenarioScores, competition: string): Standing[] => {
+  const rows = standings.map(row => ({ ...row }));
+  const rowsByKey = new Map<string, Standing>();
+  rows.forEach(row => {
+    rowsByKey.set(getTeamKey(row.team), row);
+    rowsByKey.set(row.team.name, row);
+  });
+  const findRow = (match: Match, side: 'homeTeam' | 'awayTeam') =>
+    rowsByKey.get(getTeamKey(match[side])) ?? rowsByKey.get(match[side].name);
+
+  const hypothetical: Match[] = matches
+    .filter(match => match.status === 'SCHEDULED' && scores[match.id])
+    .sort((a, b) => a.utcDate.localeCompare(b.utcDate))
+    .map((match): Match => ({
+      ...match,
+      status: 'FINISHED',
+      score: { ...match.score, fullTime: { ...scores[match.id] } }
+    }));
+
+  const addResult = (row: Standing | undefined, scored: number, conceded: number) => {
+    if (!row) return;
+    const result = scored > conceded ? 'W' : scored === conceded ? 'D' : 'L';
+    row.playedGames++;
+    row.goalsFor += scored;
+    row.goalsAgainst += conceded;
+    row.goalDifference = row.goalsFor - row.goalsAgainst;
+    if (result === 'W') {
+      row.won++;
+      row.points += 3;
+    } else if (result === 'D') {
+      row.draw++;
+      row.points += 1;
+    } else {
+      row.lost++;
+    }
+    row.form = (row.form === 'N/A' ? result : row.form + result).slice(-FORM_LENGTH);
+  };
+
+  hypothetical.forEach(match => {
+    const { home, away } = match.score.fullTime;
+    addResult(findRow(match, 'homeTeam'), home, away);
+    addResult(findRow(match, 'awayTeam'), away, home);
+  });
+
+  const ranked = rankStandings(rows, {
+    tiebreakers: getTiebreakRuleSet(competition).criteria,
+    matches: [...matches.filter(isCompletedMatch), ...hypothetical]
+  });
+
+  const pointsBefore = new Map(standings.map(row => [getTeamKey(row.team), row.points]));
+  return withPositionChanges(ranked, standings).map(row => ({
+    ...row,
+    pointsChange: row.points - (pointsBefore.get(getTeamKey(row.team)) ?? row.points)
+  }));
+};
+
+const sharedScenarioSchema = z.object({
+  n: z.string(),
+  c: z.string().min(1),
+  s: z.string().min(1),
+  r: z.array(z.tuple([z.string().min(1), z.number().int().min(0), z.number().int().min(0)]))
+});
+
+/**
+ * Compact, URL-safe form of a scenario
+ */
+export const encodeScenario = (scenario: Pick<WhatIfScenario, 'name' | 'competition' | 'season' | 'scores'>): string => {
+  const shared: z.infer<typeof sharedScenarioSchema> = {
+    n: scenario.name,
+    c: scenario.competition,
+    s: scenario.season,
+    r: Object.entries(scenario.scores).map(([id, score]) => [id, score.home, score.away])
+  };
+  const bytes = new TextEncoder().encode(JSON.stringify(shared));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Read a shared scenario; null when the parameter is malformed
+ */
+export const decodeScenario = (encoded: string): Omit<WhatIfScenario, 'id' | 'savedAt'> | null => {
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    const json = new TextDecoder().decode(Uint8Array.from(binary, character => character.charCodeAt(0)));
+    const parsed = sharedScenarioSchema.safeParse(JSON.parse(json));
+    if (!parsed.success) return null;
+
+    const { n, c, s, r } = parsed.data;
+    return {
+      name: n,
+      competition: c,
+      season: s,
+      scores: Object.fromEntries(r.map(([id, home, away]) => [id, { home, away }]))
+    };
+  } catch {
+    return null;
+  }
+};
+
+class ScenarioStore {
+  private storageKey: string;
+  private scenarios: WhatIfScenario[];
+  private listeners = new Set<ScenariosListener>();
+
+  /**
+   * Constructor - Load saved scenarios
+   * @param storageKey - localStorage key holding the scenarios
+   */
+  constructor(storageKey: string = STORAGE_KEY) {
+    this.storageKey = storageKey;
+    this.scenarios = this.load();
+  }
+
+  private load(): WhatIfScenario[] {
+    if (typeof localStorage === 'undefined') return [];
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.storageKey) || '[]');
+      return Array.isArray(stored) ? stored : [];
+    } catch (error) {
+      console.warn('⚠️ Could not read saved scenarios:', error);
+      return [];
+    }
+  }
+
+  private save(): void {
+    if (typeof localStorage !== 'undefined') {
+      try {
+        localStorage.setItem(this.storageKey, JSON.stringify(this.scenarios));
+      } catch (error) {
+        console.warn('⚠️ Could not save scenarios:', error);
+      }
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Saved scenarios of a competition and season, most recently saved first
+   */
+  list(competition: string, season: string): WhatIfScenario[] {
+    return this.scenarios
+      .filter(scenario => scenario.competition === competition && scenario.season === season)
+      .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  }
+
+  /**
+   * Save a scenario, replacing a saved one with the same name
+   */
+  saveScenario(scenario: Omit<WhatIfScenario, 'id' | 'savedAt'>): WhatIfScenario {
+    const existing = this.scenarios.find(entry =>
+      entry.competition === scenario.competition && entry.season === scenario.season && entry.name === scenario.name
+    );
+    const saved: WhatIfScenario = {
+      ...scenario,
+      id: existing?.id ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      savedAt: new Date().toISOString()
+    };
+    this.scenarios = [...this.scenarios.filter(entry => entry.id !== saved.id), saved];
+    this.save();
+    return saved;
+  }
+
+  remove(id: string): void {
+    this.scenarios = this.scenarios.filter(scenario => scenario.id !== id);
+    this.save();
+  }
+
+  subscribe(listener: ScenariosListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const scenarioStore = new ScenarioStore();
+
+export default ScenarioStore;